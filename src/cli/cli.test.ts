@@ -0,0 +1,171 @@
+import { ethers } from 'ethers';
+import { CliIO, runCli } from './cli';
+
+const abi = new ethers.utils.Interface([
+    'function transfer(address to, uint256 amount)',
+    'event Transfer(address indexed from, address indexed to, uint256 value)',
+    'error InsufficientBalance(uint256 available)',
+]);
+
+const transfer = abi.encodeFunctionData('transfer', ['0x111a66bec9536af6da69dd198f5252857dfb2fb1', 1234]);
+
+// run the cli against an in-memory filesystem and stdin, capturing the output
+const run = async (args: string[], stdin: string = '', files: Record<string, string> = {}) => {
+    const stdout: string[] = [];
+    const stderr: string[] = [];
+    const io: CliIO = {
+        readFile: (path) => {
+            if (!(path in files)) throw new Error('no such file');
+            return files[path];
+        },
+        readStdin: async () => stdin,
+        stdout: (line) => stdout.push(line),
+        stderr: (line) => stderr.push(line),
+    };
+
+    const code = await runCli(args, io);
+    return { code, stdout, stderr };
+};
+
+describe('cli', () => {
+    it('should guess calldata from the arguments', async () => {
+        const { code, stdout } = await run([transfer]);
+
+        expect(code).toBe(0);
+        expect(stdout).toEqual(['guessed_a9059cbb(address,uint256)']);
+    });
+
+    it('should narrow static types when asked to', async () => {
+        const { code, stdout } = await run(['--aggressive', transfer]);
+
+        expect(code).toBe(0);
+        expect(stdout).toEqual(['guessed_a9059cbb(address,uint16)']);
+    });
+
+    it('should read one blob per line from stdin', async () => {
+        const { code, stdout } = await run([], `${transfer}\n\n${transfer.substring(2)}\n`);
+
+        expect(code).toBe(0);
+        expect(stdout).toEqual(['guessed_a9059cbb(address,uint256)', 'guessed_a9059cbb(address,uint256)']);
+    });
+
+    it('should read blobs from a file', async () => {
+        const { code, stdout } = await run(['--file', 'calldata.txt'], '', { 'calldata.txt': transfer });
+
+        expect(code).toBe(0);
+        expect(stdout).toEqual(['guessed_a9059cbb(address,uint256)']);
+    });
+
+    it('should name functions from a signature database', async () => {
+        const files = { 'sigs.txt': 'transfer(address,uint256)\n' };
+        const { code, stdout } = await run(['--signatures', 'sigs.txt', transfer], '', files);
+
+        expect(code).toBe(0);
+        expect(stdout).toEqual(['transfer(address,uint256)']);
+    });
+
+    it('should warn about signature collisions', async () => {
+        const files = { 'sigs.json': '["transfer(address,uint256)","many_msg_babbage(bytes1)"]' };
+        const { stdout, stderr } = await run(['-s', 'sigs.json', transfer], '', files);
+
+        expect(stdout).toEqual(['transfer(address,uint256)']);
+        expect(stderr).toEqual([
+            'warning: calldata #1 matches several known signatures: transfer(address,uint256), many_msg_babbage(bytes1)',
+        ]);
+    });
+
+    it('should name unknown functions from a dictionary', async () => {
+        const files = { 'words.txt': 'approve\ntransfer from\n', 'sigs.txt': 'approve(address,uint256)\n' };
+        const { code, stdout } = await run(['-d', 'words.txt', '-s', 'sigs.txt', transfer], '', files);
+
+        expect(code).toBe(0);
+        expect(stdout).toEqual(['transfer(address,uint256)']);
+    });
+
+    it('should warn about trailing data', async () => {
+        const { code, stdout, stderr } = await run([transfer + '2222222222222222222222222222222222222222']);
+
+        expect(code).toBe(0);
+        expect(stdout).toEqual(['guessed_a9059cbb(address,uint256)']);
+        expect(stderr).toEqual([
+            'warning: calldata #1 ignored trailing address at byte 64: 0x2222222222222222222222222222222222222222',
+        ]);
+    });
+
+    it('should print json abi entries', async () => {
+        const { stdout } = await run(['-o', 'json', transfer]);
+
+        expect(JSON.parse(stdout[0])).toMatchObject({
+            type: 'function',
+            name: 'guessed_a9059cbb',
+            inputs: [{ type: 'address' }, { type: 'uint256' }],
+        });
+    });
+
+    it('should print decoded values', async () => {
+        const { stdout } = await run(['-o', 'values', transfer]);
+
+        expect(JSON.parse(stdout[0])).toEqual(['0x111A66beC9536aF6DA69Dd198F5252857dFB2FB1', '1234']);
+    });
+
+    it('should guess abi encoded data', async () => {
+        const { stdout } = await run(['-m', 'encoded', ethers.utils.defaultAbiCoder.encode(['string'], ['hello'])]);
+
+        expect(stdout).toEqual(['(string)']);
+    });
+
+    it('should guess revert data', async () => {
+        const { stdout } = await run(['-m', 'revert', abi.encodeErrorResult('InsufficientBalance', [5])]);
+
+        expect(stdout).toEqual(['guessed_92665351(uint256)']);
+    });
+
+    it('should describe builtin reverts', async () => {
+        const panic = '0x4e487b71' + ethers.utils.defaultAbiCoder.encode(['uint256'], [0x12]).substring(2);
+        const { stdout } = await run(['-m', 'revert', panic]);
+
+        expect(stdout).toEqual(['Panic(uint256): division or modulo by zero (0x12)']);
+    });
+
+    it('should guess events', async () => {
+        const log = abi.encodeEventLog(abi.getEvent('Transfer'), [
+            '0x111a66bec9536af6da69dd198f5252857dfb2fb1',
+            '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+            1234,
+        ]);
+        const { stdout } = await run(['-m', 'event', `${log.topics.join(',')}:${log.data}`]);
+
+        expect(stdout).toEqual(['event guessed_ddf252ad(address indexed, address indexed, uint256)']);
+    });
+
+    it('should decode the values of events', async () => {
+        const log = abi.encodeEventLog(abi.getEvent('Transfer'), [
+            '0x111a66bec9536af6da69dd198f5252857dfb2fb1',
+            '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+            1234,
+        ]);
+        const { code, stdout } = await run(['-m', 'event', '-o', 'values', `${log.topics.join(',')}:${log.data}`]);
+
+        expect(code).toBe(0);
+        expect(JSON.parse(stdout[0])).toEqual([
+            '0x111A66beC9536aF6DA69Dd198F5252857dFB2FB1',
+            '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+            '1234',
+        ]);
+    });
+
+    it('should exit non-zero when guessing fails', async () => {
+        const { code, stdout, stderr } = await run([transfer, 'nothex']);
+
+        expect(code).toBe(1);
+        expect(stdout).toEqual(['guessed_a9059cbb(address,uint256)']);
+        expect(stderr).toEqual(['error: could not guess calldata #2: not valid hex']);
+    });
+
+    it('should reject bad usage', async () => {
+        const { code, stderr } = await run(['--mode', 'nonsense']);
+
+        expect(code).toBe(2);
+        expect(stderr[0]).toBe('error: unknown mode nonsense');
+    });
+});
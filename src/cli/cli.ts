@@ -0,0 +1,345 @@
+import { defaultAbiCoder, FunctionFragment, ParamType } from '@ethersproject/abi';
+import { arrayify, hexConcat, isHexString } from 'ethers/lib/utils';
+import {
+    guessAbiEncodedData,
+    guessError,
+    guessEvent,
+    guessFragmentWithTrailingData,
+    COMMON_NAME_SUFFIXES,
+    findFunctionNames,
+    GuessOptions,
+    matchSignatures,
+    parseSignatureDatabase,
+    serializeValues,
+    SignatureDatabase,
+} from '../encode-guesser';
+
+const USAGE = `usage: abi-guess [options] [hex...]
+
+guess the abi of hex blobs given as arguments, read from --file, or piped on stdin (one per line)
+
+options:
+  -m, --mode <mode>       what the blobs are (default: calldata)
+                            calldata  selector followed by abi encoded arguments
+                            encoded   the output of abi.encode()
+                            revert    revert data, including Error(string) and Panic(uint256)
+                            event     a log, written as <topic>,<topic>,...:<data>
+  -o, --output <format>   how to print the result (default: signature)
+                            signature  a human readable signature
+                            json       a json abi entry
+                            values     the decoded values as json
+  -f, --file <path>       read the blobs from a file, one per line
+  -s, --signatures <path> in calldata mode, name functions using a 4byte style dump of known signatures
+  -d, --dictionary <path> in calldata mode, name unknown functions by combining the words in this file
+      --anonymous         in event mode, treat every topic as an indexed parameter
+      --aggressive        narrow static types as far as they go, ex: 1 becomes bool and 300 becomes uint16
+  -h, --help              show this message`;
+
+const MODES = ['calldata', 'encoded', 'revert', 'event'] as const;
+const OUTPUTS = ['signature', 'json', 'values'] as const;
+
+type Mode = typeof MODES[number];
+type Output = typeof OUTPUTS[number];
+
+export type CliIO = {
+    // read the entire contents of a file
+    readFile: (path: string) => string;
+
+    // read everything piped on stdin
+    readStdin: () => Promise<string>;
+
+    // print a line of output
+    stdout: (line: string) => void;
+
+    // print a line of diagnostics
+    stderr: (line: string) => void;
+};
+
+type CliOptions = {
+    mode: Mode;
+    output: Output;
+    file: string | null;
+    signatures: string | null;
+    dictionary: string | null;
+    anonymous: boolean;
+    aggressive: boolean;
+    blobs: string[];
+};
+
+// an error that should be reported to the user as is, along with the usage
+class UsageError extends Error {}
+
+const parseArgs = (args: string[]): CliOptions | null => {
+    const options: CliOptions = {
+        mode: 'calldata',
+        output: 'signature',
+        file: null,
+        signatures: null,
+        dictionary: null,
+        anonymous: false,
+        aggressive: false,
+        blobs: [],
+    };
+
+    const takeValue = (flag: string, idx: number): string => {
+        const value = args[idx];
+        if (value === undefined) throw new UsageError(`${flag} requires a value`);
+        return value;
+    };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        switch (arg) {
+            case '-h':
+            case '--help':
+                return null;
+            case '-m':
+            case '--mode': {
+                const mode = takeValue(arg, ++i);
+                if (!(MODES as readonly string[]).includes(mode)) throw new UsageError(`unknown mode ${mode}`);
+                options.mode = mode as Mode;
+                break;
+            }
+            case '-o':
+            case '--output': {
+                const output = takeValue(arg, ++i);
+                if (!(OUTPUTS as readonly string[]).includes(output)) throw new UsageError(`unknown output ${output}`);
+                options.output = output as Output;
+                break;
+            }
+            case '-f':
+            case '--file':
+                options.file = takeValue(arg, ++i);
+                break;
+            case '-s':
+            case '--signatures':
+                options.signatures = takeValue(arg, ++i);
+                break;
+            case '-d':
+            case '--dictionary':
+                options.dictionary = takeValue(arg, ++i);
+                break;
+            case '--anonymous':
+                options.anonymous = true;
+                break;
+            case '--aggressive':
+                options.aggressive = true;
+                break;
+            default:
+                if (arg.startsWith('-')) throw new UsageError(`unknown option ${arg}`);
+                options.blobs.push(arg);
+        }
+    }
+
+    return options;
+};
+
+const normalizeHex = (blob: string): string => {
+    const hex = blob.startsWith('0x') ? blob : `0x${blob}`;
+    if (!isHexString(hex) || hex.length % 2 !== 0) throw new Error('not valid hex');
+    return hex;
+};
+
+// the json abi entry for something that ethers can't build a fragment for
+const toJsonAbi = (type: string, name: string, params: ParamType[]): string => {
+    return JSON.stringify({ type, name, inputs: params.map((v) => JSON.parse(v.format('json'))) });
+};
+
+// everything we were given to name functions with, loaded once up front
+type KnownNames = {
+    db: SignatureDatabase | null;
+    dictionary: string[] | null;
+};
+
+// try to name a guessed function using the dictionary, keeping the guessed name if nothing hashes to the selector
+const nameFragment = (
+    fragment: FunctionFragment,
+    data: string,
+    dictionary: string[],
+    warn: (message: string) => void,
+): FunctionFragment => {
+    const { fragments, cutOff } = findFunctionNames(data, fragment.inputs, dictionary, {
+        suffixes: COMMON_NAME_SUFFIXES,
+    });
+    if (cutOff) {
+        warn('ran out of budget while searching for a name');
+    }
+    if (fragments.length > 1) {
+        warn(`matches several names: ${fragments.map((v) => v.format()).join(', ')}`);
+    }
+    return fragments[0] ?? fragment;
+};
+
+// guess a single blob and format it. returns null if we couldn't guess it
+// anything the user should know about the guess is passed to warn
+const guessBlob = (
+    blob: string,
+    options: CliOptions,
+    names: KnownNames,
+    warn: (message: string) => void,
+): string | null => {
+    const guessOptions: GuessOptions = { inference: options.aggressive ? 'aggressive' : 'conservative' };
+
+    switch (options.mode) {
+        case 'calldata': {
+            const data = normalizeHex(blob);
+
+            // known signatures win over guesses, see identifyFragment
+            const matches = names.db === null ? [] : matchSignatures(data, names.db);
+            if (matches.length > 1) {
+                warn(`matches several known signatures: ${matches.map((v) => v.format()).join(', ')}`);
+            }
+
+            let fragment: FunctionFragment | null = matches[0] ?? null;
+            const guessed = fragment === null;
+            if (guessed) {
+                const { fragment: guessedFragment, trailing } = guessFragmentWithTrailingData(data, guessOptions);
+                if (trailing !== null) {
+                    const kind = trailing.kind === 'unknown' ? 'data' : trailing.kind;
+                    warn(`ignored trailing ${kind} at byte ${trailing.offset}: ${trailing.data}`);
+                }
+                fragment = guessedFragment;
+            }
+            if (!fragment) return null;
+
+            if (guessed && names.dictionary !== null) {
+                fragment = nameFragment(fragment, data, names.dictionary, warn);
+            }
+
+            if (options.output === 'json') return fragment.format('json');
+            if (options.output === 'values') {
+                return JSON.stringify(
+                    serializeValues(fragment.inputs, defaultAbiCoder.decode(fragment.inputs, arrayify(data).slice(4))),
+                );
+            }
+            return fragment.format();
+        }
+        case 'encoded': {
+            const data = normalizeHex(blob);
+            const params = guessAbiEncodedData(data, guessOptions);
+            if (!params) return null;
+
+            if (options.output === 'json') return JSON.stringify(params.map((v) => JSON.parse(v.format('json'))));
+            if (options.output === 'values')
+                return JSON.stringify(serializeValues(params, defaultAbiCoder.decode(params, data)));
+            return `(${params.map((v) => v.format()).join(',')})`;
+        }
+        case 'revert': {
+            const data = normalizeHex(blob);
+            const error = guessError(data, guessOptions);
+            if (!error) return null;
+
+            if (options.output === 'json') {
+                return toJsonAbi('error', error.signature.substring(0, error.signature.indexOf('(')), error.params);
+            }
+            if (options.output === 'values') {
+                return JSON.stringify(
+                    serializeValues(error.params, defaultAbiCoder.decode(error.params, arrayify(data).slice(4))),
+                );
+            }
+            return error.kind === 'custom' ? error.signature : `${error.signature}: ${error.reason}`;
+        }
+        case 'event': {
+            const separator = blob.indexOf(':');
+            if (separator === -1) throw new Error('expected <topic>,<topic>,...:<data>');
+
+            const topicsPart = blob.substring(0, separator);
+            const topics = topicsPart.length === 0 ? [] : topicsPart.split(',').map(normalizeHex);
+            const data = normalizeHex(blob.substring(separator + 1));
+
+            const fragment = guessEvent(topics, data, options.anonymous, guessOptions);
+            if (!fragment) return null;
+
+            if (options.output === 'json') return fragment.format('json');
+            if (options.output === 'values') {
+                // the guessed name never hashes to topic0, so decode without checking it. indexed params come first
+                const indexed = fragment.inputs.filter((v) => v.indexed);
+                const values = [
+                    ...defaultAbiCoder.decode(indexed, hexConcat(topics.slice(fragment.anonymous ? 0 : 1))),
+                    ...defaultAbiCoder.decode(fragment.inputs.slice(indexed.length), data),
+                ];
+                return JSON.stringify(serializeValues(fragment.inputs, values));
+            }
+            return fragment.format('full');
+        }
+    }
+};
+
+/*
+run the cli with the given arguments, returning the exit code. every blob is attempted even if an earlier one
+fails, and failures are reported on stderr
+ */
+export const runCli = async (args: string[], io: CliIO): Promise<number> => {
+    let options: CliOptions | null;
+    try {
+        options = parseArgs(args);
+    } catch (e) {
+        if (!(e instanceof UsageError)) throw e;
+
+        io.stderr(`error: ${e.message}`);
+        io.stderr(USAGE);
+        return 2;
+    }
+    if (!options) {
+        io.stdout(USAGE);
+        return 0;
+    }
+
+    let input: string[] = options.blobs;
+    if (options.file !== null) {
+        try {
+            input = [...input, ...io.readFile(options.file).split('\n')];
+        } catch (e) {
+            io.stderr(`error: could not read ${options.file}: ${(e as Error).message}`);
+            return 2;
+        }
+    } else if (input.length === 0) {
+        input = (await io.readStdin()).split('\n');
+    }
+
+    const names: KnownNames = { db: null, dictionary: null };
+    if (options.signatures !== null) {
+        try {
+            names.db = parseSignatureDatabase(io.readFile(options.signatures));
+        } catch (e) {
+            io.stderr(`error: could not read ${options.signatures}: ${(e as Error).message}`);
+            return 2;
+        }
+    }
+    if (options.dictionary !== null) {
+        try {
+            // one word per line, but anything separated by whitespace or commas will do
+            names.dictionary = io.readFile(options.dictionary).split(/[\s,]+/);
+        } catch (e) {
+            io.stderr(`error: could not read ${options.dictionary}: ${(e as Error).message}`);
+            return 2;
+        }
+    }
+
+    const blobs = input.map((v) => v.trim()).filter((v) => v.length > 0);
+    if (blobs.length === 0) {
+        io.stderr('error: no input');
+        io.stderr(USAGE);
+        return 2;
+    }
+
+    let failed = false;
+    blobs.forEach((blob, idx) => {
+        try {
+            const result = guessBlob(blob, options!, names, (message) =>
+                io.stderr(`warning: ${options!.mode} #${idx + 1} ${message}`),
+            );
+            if (result === null) {
+                io.stderr(`error: could not guess ${options!.mode} #${idx + 1}`);
+                failed = true;
+                return;
+            }
+            io.stdout(result);
+        } catch (e) {
+            io.stderr(`error: could not guess ${options!.mode} #${idx + 1}: ${(e as Error).message}`);
+            failed = true;
+        }
+    });
+
+    return failed ? 1 : 0;
+};
@@ -0,0 +1,23 @@
+#!/usr/bin/env node
+import { readFileSync } from 'fs';
+import { runCli } from './cli';
+
+const readStdin = async (): Promise<string> => {
+    // don't wait for input that a human would have to type
+    if (process.stdin.isTTY) return '';
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+};
+
+runCli(process.argv.slice(2), {
+    readFile: (path) => readFileSync(path, 'utf8'),
+    readStdin,
+    stdout: (line) => console.log(line),
+    stderr: (line) => console.error(line),
+}).then((code) => {
+    process.exitCode = code;
+});
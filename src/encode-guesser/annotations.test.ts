@@ -0,0 +1,122 @@
+import { defaultAbiCoder, ParamType } from '@ethersproject/abi';
+import { constants } from 'ethers';
+import { id, keccak256, parseUnits } from 'ethers/lib/utils';
+import { annotateValues, guessAbiEncodedDataWithAnnotations, ValueAnnotation } from './annotations';
+
+// 2025-10-09, so the tests don't depend on the clock
+const now = 1760000000;
+
+const annotate = (types: string[], vals: any[]): ValueAnnotation[] =>
+    annotateValues(
+        types.map((v) => ParamType.from(v)),
+        vals,
+        { now },
+    );
+
+const kinds = (annotations: ValueAnnotation[]) => annotations.map((v) => `${v.path}: ${v.kind}`);
+
+describe('annotations', () => {
+    it('should annotate timestamps within a plausible range', () => {
+        const annotations = annotate(['uint256', 'uint256', 'uint256'], [1700000000, 1000000000, now * 2]);
+
+        expect(annotations).toContainEqual(
+            expect.objectContaining({ path: 'arg0', kind: 'timestamp', description: '2023-11-14T22:13:20.000Z' }),
+        );
+        // before ethereum existed, and too far in the future
+        expect(annotations.filter((v) => v.kind === 'timestamp')).toHaveLength(1);
+    });
+
+    it('should annotate token amounts with the most common decimals', () => {
+        const annotations = annotate(
+            ['uint256', 'uint256', 'uint256'],
+            [parseUnits('1.5', 18), parseUnits('250', 6), 12345],
+        );
+
+        expect(annotations).toContainEqual(
+            expect.objectContaining({ path: 'arg0', kind: 'token-amount', description: '1.5 (18 decimals)' }),
+        );
+        expect(annotations).toContainEqual(
+            expect.objectContaining({ path: 'arg1', kind: 'token-amount', description: '250.0 (6 decimals)' }),
+        );
+
+        // round amounts are much more likely to be amounts
+        const confidences = annotations.filter((v) => v.kind === 'token-amount').map((v) => v.confidence);
+        expect(confidences[2]).toBeLessThan(confidences[0]);
+        expect(confidences[2]).toBeLessThan(confidences[1]);
+    });
+
+    it('should annotate unlimited approvals, even when they are guessed as signed', () => {
+        expect(annotate(['uint256'], [constants.MaxUint256])).toEqual([
+            { path: 'arg0', kind: 'max-approval', confidence: 0.95, description: 'type(uint256).max' },
+        ]);
+        expect(kinds(annotate(['int256', 'int8'], [-1, -1]))).toEqual(['arg0: max-approval', 'arg1: max-approval']);
+        expect(annotate(['uint256'], [constants.MaxUint256.shr(96)])[0].description).toBe('type(uint160).max');
+    });
+
+    it('should annotate block numbers', () => {
+        expect(kinds(annotate(['uint64'], [18000000]))).toContain('arg0: block-number');
+        expect(kinds(annotate(['uint64'], [5000]))).not.toContain('arg0: block-number');
+    });
+
+    it('should annotate selectors and hashes', () => {
+        const selector = id('transfer(address,uint256)').substring(0, 10);
+        const annotations = annotate(
+            ['bytes4', 'bytes32', 'bytes32'],
+            [selector, selector.padEnd(66, '0'), keccak256('0x01')],
+        );
+
+        expect(kinds(annotations)).toEqual(['arg0: selector', 'arg1: selector', 'arg2: hash']);
+        expect(annotations[1].description).toBe(selector);
+
+        // mostly zeros is not a hash
+        expect(annotate(['bytes32'], ['0x' + '00'.repeat(30) + '1234'])).toEqual([]);
+    });
+
+    it('should annotate well-known addresses', () => {
+        const annotations = annotate(
+            ['address', 'address', 'address', 'address'],
+            [
+                constants.AddressZero,
+                '0x000000000000000000000000000000000000dEaD',
+                '0x0000000000000000000000000000000000000001',
+                '0x111A66beC9536aF6DA69Dd198F5252857dFB2FB1',
+            ],
+        );
+
+        expect(annotations.map((v) => v.description)).toEqual([
+            'the zero address',
+            'the dead address, used for burns',
+            'the ecrecover precompile',
+        ]);
+
+        // the dead address is guessed as a number, but small numbers are not precompiles
+        expect(kinds(annotate(['uint256', 'uint256'], [0xdead, 1]))).toEqual(['arg0: well-known-address']);
+    });
+
+    it('should annotate nested values with their paths', () => {
+        const annotations = annotate(
+            ['(uint256,bytes32)[]'],
+            [
+                [
+                    [1, keccak256('0x01')],
+                    [1700000000, keccak256('0x02')],
+                ],
+            ],
+        );
+
+        expect(kinds(annotations)).toEqual(
+            expect.arrayContaining(['arg0[0].1: hash', 'arg0[1].0: timestamp', 'arg0[1].1: hash']),
+        );
+    });
+
+    it('should not change the guessed types', () => {
+        const data = defaultAbiCoder.encode(
+            ['address', 'uint256', 'uint256'],
+            ['0x111A66beC9536aF6DA69Dd198F5252857dFB2FB1', constants.MaxUint256, 1700000000],
+        );
+
+        const guessed = guessAbiEncodedDataWithAnnotations(data, { now });
+        expect(guessed?.params.map((v) => v.format())).toEqual(['address', 'uint256', 'uint256']);
+        expect(kinds(guessed!.annotations)).toEqual(expect.arrayContaining(['arg1: max-approval', 'arg2: timestamp']));
+    });
+});
@@ -0,0 +1,208 @@
+import { defaultAbiCoder, ParamType } from '@ethersproject/abi';
+import { BigNumber, constants } from 'ethers';
+import { arrayify, BytesLike, formatUnits, getAddress, hexlify } from 'ethers/lib/utils';
+import { guessAbiEncodedData, GuessOptions } from './guess';
+import { countLeadingZeros, countTrailingZeros } from './types';
+import { walkValues } from './values';
+
+// what a value probably means
+// - timestamp: seconds since the unix epoch, like a deadline or an expiry
+// - token-amount: an amount of a token with 18, 6 or 8 decimals
+// - max-approval: type(uint256).max or a similar maximum, usually an unlimited approval
+// - block-number: the number of a block
+// - selector: a function selector, left aligned in its word
+// - hash: the output of keccak256 or some other hash
+// - well-known-address: the zero address, the dead address, a precompile and the like
+export type AnnotationKind =
+    | 'timestamp'
+    | 'token-amount'
+    | 'max-approval'
+    | 'block-number'
+    | 'selector'
+    | 'hash'
+    | 'well-known-address';
+
+export type ValueAnnotation = {
+    // where the value was found, ex: arg1[2].0
+    path: string;
+
+    kind: AnnotationKind;
+
+    // how likely it is that the value means this, between 0 and 1
+    confidence: number;
+
+    // a human readable rendering of the value with this meaning, ex: 2023-11-14T22:13:20.000Z or 1.5 (18 decimals)
+    description: string;
+};
+
+export type AnnotationOptions = {
+    // the current time in seconds, which decides which timestamps are plausible. defaults to the clock
+    now?: number;
+};
+
+export type GuessWithAnnotations = {
+    // the guessed types, which the annotations don't change
+    params: ParamType[];
+
+    // every annotation for every value, a value can have more than one
+    annotations: ValueAnnotation[];
+};
+
+// nothing on ethereum happened before the genesis block
+const GENESIS_TIMESTAMP = 1438269973;
+
+// deadlines and expiries are sometimes years out, but rarely further than this
+const MAX_TIMESTAMP_LOOKAHEAD = 10 * 365 * 24 * 60 * 60;
+
+// block numbers of the busiest chains, l2s included, are well below this. numbers below the minimum are more likely
+// to be anything else
+const MIN_BLOCK_NUMBER = 1_000_000;
+const MAX_BLOCK_NUMBER = 1_000_000_000;
+
+// the decimals that almost every token uses, from most to least common
+const TOKEN_DECIMALS = [18, 6, 8];
+
+// the range of whole tokens we consider plausible, anything outside is more likely something else
+const MIN_TOKENS = 0.0001;
+const MAX_TOKENS = 1e12;
+
+// the maximums of the integer types used for unlimited amounts, other than uint256 itself
+const MAX_AMOUNT_WIDTHS = [96, 112, 128, 160, 192];
+
+const WELL_KNOWN_ADDRESSES: Record<string, string> = {
+    '0x0000000000000000000000000000000000000000': 'the zero address',
+    '0x000000000000000000000000000000000000dEaD': 'the dead address, used for burns',
+    '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE': 'the placeholder for ether used by aggregators',
+    '0x0000000000000000000000000000000000000001': 'the ecrecover precompile',
+    '0x0000000000000000000000000000000000000002': 'the sha256 precompile',
+    '0x0000000000000000000000000000000000000003': 'the ripemd160 precompile',
+    '0x0000000000000000000000000000000000000004': 'the identity precompile',
+    '0x0000000000000000000000000000000000000005': 'the modexp precompile',
+    '0x0000000000000000000000000000000000000006': 'the bn256 add precompile',
+    '0x0000000000000000000000000000000000000007': 'the bn256 scalar mul precompile',
+    '0x0000000000000000000000000000000000000008': 'the bn256 pairing precompile',
+    '0x0000000000000000000000000000000000000009': 'the blake2f precompile',
+    '0x000000000000000000000000000000000000000a': 'the point evaluation precompile',
+};
+
+// the well-known addresses that aren't also small numbers which are everywhere
+const DISTINCTIVE_ADDRESSES = [
+    '0x000000000000000000000000000000000000dEaD',
+    '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE',
+];
+
+// the number of zeros at the end of the number when written in decimal
+const countDecimalZeros = (value: BigNumber): number => {
+    const digits = value.toString();
+    return digits.length - digits.replace(/0+$/, '').length;
+};
+
+// the most common decimals that make the value a plausible amount of tokens, if any. a round amount of 18 decimals
+// is just as round with 6 or 8, so roundness can't pick the decimals
+const annotateTokenAmount = (value: BigNumber): [number, string] | null => {
+    const decimals = TOKEN_DECIMALS.find((v) => {
+        const tokens = parseFloat(formatUnits(value, v));
+        return tokens >= MIN_TOKENS && tokens <= MAX_TOKENS;
+    });
+    if (decimals === undefined) return null;
+
+    // a human picked the amount if it's round, but even unround amounts are usually amounts
+    const confidence = 0.2 + 0.6 * Math.min(1, countDecimalZeros(value) / decimals);
+    return [confidence, `${formatUnits(value, decimals)} (${decimals} decimals)`];
+};
+
+const annotateNumber = (value: BigNumber, now: number): Array<[AnnotationKind, number, string]> => {
+    if (value.isZero()) return [];
+
+    // addresses with this many leading zeros are guessed as numbers, but nothing else would be exactly this number
+    const address = DISTINCTIVE_ADDRESSES.find((v) => value.eq(v));
+    if (address !== undefined) {
+        return [['well-known-address', 0.5, WELL_KNOWN_ADDRESSES[address]]];
+    }
+
+    if (value.eq(constants.MaxUint256)) {
+        return [['max-approval', 0.95, 'type(uint256).max']];
+    }
+    const width = MAX_AMOUNT_WIDTHS.find((v) => value.eq(BigNumber.from(1).shl(v).sub(1)));
+    if (width !== undefined) {
+        return [['max-approval', 0.6, `type(uint${width}).max`]];
+    }
+
+    const annotations: Array<[AnnotationKind, number, string]> = [];
+    if (value.gte(GENESIS_TIMESTAMP) && value.lte(now + MAX_TIMESTAMP_LOOKAHEAD)) {
+        annotations.push(['timestamp', 0.7, new Date(value.toNumber() * 1000).toISOString()]);
+    }
+    if (value.gte(MIN_BLOCK_NUMBER) && value.lt(MAX_BLOCK_NUMBER)) {
+        annotations.push(['block-number', 0.3, `block ${value.toString()}`]);
+    }
+
+    const amount = annotateTokenAmount(value);
+    if (amount !== null) {
+        annotations.push(['token-amount', ...amount]);
+    }
+    return annotations;
+};
+
+const annotateWord = (word: Uint8Array): Array<[AnnotationKind, number, string]> => {
+    const leadingZeros = countLeadingZeros(word);
+    const trailingZeros = countTrailingZeros(word);
+
+    if (word.length >= 4 && trailingZeros >= word.length - 4 && leadingZeros < 4) {
+        return [['selector', 0.8, hexlify(word.subarray(0, 4))]];
+    } else if (word.length === 32 && leadingZeros < 2 && trailingZeros < 2) {
+        // a hash has a zero byte at either end once in every 128 hashes, but not two of them
+        return [['hash', 0.6, hexlify(word)]];
+    }
+    return [];
+};
+
+// the annotations for a value that isn't an array or a tuple, see walkValues
+const annotateValue = (param: ParamType, val: any, now: number): Array<[AnnotationKind, number, string]> => {
+    if (param.baseType === 'address') {
+        const description = WELL_KNOWN_ADDRESSES[getAddress(val)];
+        return description === undefined ? [] : [['well-known-address', 0.9, description]];
+    } else if (/^u?int[0-9]+$/.test(param.baseType)) {
+        // type(uint256).max is guessed as an int8 of -1 when aggressive, so negative values are read as the unsigned
+        // word they were encoded as
+        return annotateNumber(BigNumber.from(val).toTwos(256), now);
+    } else if (/^bytes[0-9]+$/.test(param.baseType)) {
+        return annotateWord(arrayify(val));
+    }
+    return [];
+};
+
+/*
+tag the values with what they probably mean, like timestamps, token amounts or hashes. the values are the ones
+decoded with the params, and the top level params are named arg0, arg1, ... in the paths. every annotation is just
+a hint with a confidence, they never change the types. a value can have several annotations, ex: a number can be a
+timestamp and a block number at the same time, and many have none at all
+ */
+export const annotateValues = (
+    params: ReadonlyArray<ParamType>,
+    vals: ReadonlyArray<any>,
+    options: AnnotationOptions = {},
+): ValueAnnotation[] => {
+    const now = options.now ?? Math.floor(Date.now() / 1000);
+
+    const annotations: ValueAnnotation[] = [];
+    for (const [param, value, path] of walkValues(params, vals)) {
+        for (const [kind, confidence, description] of annotateValue(param, value, now)) {
+            annotations.push({ path, kind, confidence, description });
+        }
+    }
+    return annotations;
+};
+
+// like guessAbiEncodedData, but also annotate the decoded values, see annotateValues
+export const guessAbiEncodedDataWithAnnotations = (
+    bytes: BytesLike,
+    options: GuessOptions & AnnotationOptions = {},
+): GuessWithAnnotations | null => {
+    const data = arrayify(bytes);
+    const params = guessAbiEncodedData(data, options);
+    if (!params) {
+        return null;
+    }
+
+    return { params, annotations: annotateValues(params, defaultAbiCoder.decode(params, data), options) };
+};
@@ -0,0 +1,119 @@
+import { defaultAbiCoder, Interface } from '@ethersproject/abi';
+import { hexConcat, hexlify } from 'ethers/lib/utils';
+import { checkSignature } from './check';
+import { chainTestcases } from './guess.fixtures';
+
+// replace the word at the given index of the hex data
+const setWord = (data: string, idx: number, word: string) => {
+    const hex = data.substring(2);
+    return '0x' + hex.substring(0, idx * 64) + word.substring(2).padStart(64, '0') + hex.substring((idx + 1) * 64);
+};
+
+describe('check signature', () => {
+    const iface = new Interface(['function transfer(address to, uint256 amount)', 'function f(uint8, string, bytes)']);
+    const address = '0x' + '11'.repeat(20);
+
+    it('should accept canonical calldata', () => {
+        const calldata = iface.encodeFunctionData('transfer', [address, 100]);
+        const check = checkSignature(calldata, 'transfer(address,uint256)');
+
+        expect(check.selectorMatches).toBe(true);
+        expect(check.decodes).toBe(true);
+        expect(check.canonical).toBe(true);
+        expect(check.issues).toEqual([]);
+        expect(check.firstDivergentWord).toBeNull();
+        expect(check.features).toEqual([]);
+    });
+
+    it('should check bare params without a selector', () => {
+        const encoded = defaultAbiCoder.encode(['uint256[]', 'string'], [[1, 2], 'hi']);
+
+        expect(checkSignature(encoded, '(uint256[],string)').canonical).toBe(true);
+        expect(checkSignature(encoded, '(uint256[],string)').selectorMatches).toBeNull();
+
+        // a string isn't an array of numbers
+        const check = checkSignature(encoded, '(string,uint256[])');
+        expect(check.canonical).toBe(false);
+        expect(check.firstDivergentWord).not.toBeNull();
+    });
+
+    it('should notice a different selector', () => {
+        const calldata = iface.encodeFunctionData('transfer', [address, 100]);
+        const check = checkSignature(calldata, 'approve(address,uint256)');
+
+        expect(check.selectorMatches).toBe(false);
+        expect(check.canonical).toBe(false);
+    });
+
+    it('should find dirty bits in small values', () => {
+        const encoded = defaultAbiCoder.encode(['address', 'uint8'], [address, 1]);
+        const dirty = setWord(setWord(encoded, 0, '0xff' + '11'.repeat(20)), 1, '0x0101');
+
+        const check = checkSignature(dirty, '(address,uint8)');
+        expect(check.issues.map((v) => [v.kind, v.word, v.path])).toEqual([
+            ['dirty-bits', 0, '0'],
+            ['dirty-bits', 1, '1'],
+        ]);
+        expect(check.firstDivergentWord).toBe(0);
+    });
+
+    it('should find non-canonical offsets and padding', () => {
+        const encoded = defaultAbiCoder.encode(['uint8', 'string', 'bytes'], [1, 'hi', '0x1234']);
+
+        // point the bytes at the string, which ethers doesn't mind
+        const shared = setWord(encoded, 2, '0x60');
+        const sharedCheck = checkSignature(shared, '(uint8,string,bytes)');
+        expect(sharedCheck.decodes).toBe(true);
+        expect(sharedCheck.canonical).toBe(false);
+        expect(sharedCheck.issues.map((v) => v.kind)).toEqual(['non-canonical-layout', 'trailing-bytes']);
+        expect(sharedCheck.firstDivergentWord).toBe(2);
+        expect(sharedCheck.features).toEqual(['shared-tails', 'trailing-bytes']);
+
+        // dirty up the padding after the string
+        const padded = setWord(encoded, 4, '0x6869' + 'ff'.repeat(30));
+        const paddedCheck = checkSignature(padded, '(uint8,string,bytes)');
+        expect(paddedCheck.issues.map((v) => [v.kind, v.pos, v.path])).toEqual([['dirty-padding', 4 * 32 + 2, '1']]);
+    });
+
+    it('should find offsets and lengths that are out of range', () => {
+        const encoded = defaultAbiCoder.encode(['uint256', 'bytes'], [1, '0x1234']);
+
+        const badOffset = checkSignature(setWord(encoded, 1, '0x1000'), '(uint256,bytes)');
+        expect(badOffset.decodes).toBe(false);
+        expect(badOffset.issues.map((v) => [v.kind, v.word])).toEqual([['bad-offset', 1]]);
+
+        const badLength = checkSignature(setWord(encoded, 2, '0x1000'), '(uint256,bytes)');
+        expect(badLength.issues.map((v) => [v.kind, v.word])).toEqual([['bad-length', 2]]);
+
+        const tooShort = checkSignature(hexlify(defaultAbiCoder.encode(['uint256'], [1])), '(uint256,uint256)');
+        expect(tooShort.issues.map((v) => v.kind)).toEqual(['out-of-bounds']);
+    });
+
+    it('should find trailing bytes', () => {
+        const calldata = hexConcat([iface.encodeFunctionData('transfer', [address, 100]), '0xdeadbeef']);
+        const check = checkSignature(calldata, 'transfer(address,uint256)');
+
+        expect(check.decodes).toBe(true);
+        expect(check.canonical).toBe(false);
+        expect(check.issues).toEqual([expect.objectContaining({ kind: 'trailing-bytes', pos: 64, word: 2 })]);
+    });
+
+    it('should find invalid strings', () => {
+        const encoded = defaultAbiCoder.encode(['bytes'], ['0xff']);
+        const check = checkSignature(encoded, '(string)');
+
+        expect(check.decodes).toBe(false);
+        expect(check.issues.map((v) => v.kind)).toEqual(['invalid-utf8']);
+    });
+
+    it('should accept real calldata', () => {
+        for (const testcase of chainTestcases) {
+            const check = checkSignature(testcase.calldata, testcase.signature);
+            expect(check.selectorMatches).toBe(true);
+            expect(check.decodes).toBe(true);
+
+            // some callers tack extra data onto the end, which is the only thing that isn't canonical
+            expect([testcase.id, check.issues.filter((v) => v.kind !== 'trailing-bytes')]).toEqual([testcase.id, []]);
+        }
+    });
+});
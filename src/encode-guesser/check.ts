@@ -0,0 +1,308 @@
+import { defaultAbiCoder, FunctionFragment, Interface, ParamType } from '@ethersproject/abi';
+import { arrayify, BytesLike, hexlify, toUtf8String } from 'ethers/lib/utils';
+import { staticWords } from './hints';
+import { createWordView, fitsStaticValue, isDynamic, tryParseLength, tryParseOffset, WordView } from './structure';
+
+export type SignatureIssueKind =
+    // a value runs past the end of the data
+    | 'out-of-bounds'
+    // an offset that points before its own head word, past the end of the data, or isn't word aligned
+    | 'bad-offset'
+    // a length that doesn't fit in the data
+    | 'bad-length'
+    // an offset that points somewhere other than right after the value before it
+    | 'non-canonical-layout'
+    // bytes or a string that aren't padded with zeros to the next word
+    | 'dirty-padding'
+    // a static value with bits set that its type doesn't allow, ex: the upper bytes of an address
+    | 'dirty-bits'
+    // a string that isn't valid utf-8
+    | 'invalid-utf8'
+    // data after the end of the encoded params
+    | 'trailing-bytes';
+
+// ways the layout of the data can differ from a canonical encoding, which ethers will happily decode anyway
+export type EncodingFeature =
+    // the dynamic values of a tuple aren't in the same order as their params
+    | 'out-of-order-tails'
+    // more than one param points to the same dynamic value
+    | 'shared-tails'
+    // a dynamic value starts in the middle of another one
+    | 'overlapping-tails'
+    // there are unused bytes before or between the dynamic values of a tuple
+    | 'gaps'
+    // there are unused bytes after the encoded params
+    | 'trailing-bytes';
+
+export type SignatureIssue = {
+    kind: SignatureIssueKind;
+
+    // where the problem is, in bytes from the start of the encoded params (after the selector, if any)
+    pos: number;
+
+    // the word the problem is in, which is just pos / 32
+    word: number;
+
+    // which param the problem is in, ex: 1[2].0 is the first component of the third element of the second param
+    path: string;
+
+    // a human readable description of the problem
+    message: string;
+};
+
+export type SignatureCheck = {
+    // the params of the signature
+    params: ParamType[];
+
+    // if the selector of the data is the selector of the signature. null if the signature is a bare list of params
+    selectorMatches: boolean | null;
+
+    // if ethers can decode the data with the signature. note that ethers tolerates some non-canonical encodings
+    decodes: boolean;
+
+    // if the data is exactly what solidity would have encoded for the signature
+    canonical: boolean;
+
+    // every problem we found, in the order they appear in the data
+    issues: SignatureIssue[];
+
+    // every way the layout differs from a canonical encoding, even if ethers can decode it
+    features: EncodingFeature[];
+
+    // the first word where the data diverges from what the signature expects, or null if it doesn't
+    firstDivergentWord: number | null;
+};
+
+type CheckState = {
+    view: WordView;
+    issues: SignatureIssue[];
+    features: Set<EncodingFeature>;
+};
+
+const report = (state: CheckState, kind: SignatureIssueKind, pos: number, path: string, message: string) => {
+    state.issues.push({ kind, pos, word: Math.floor(pos / 32), path, message });
+};
+
+// the number of bytes the param takes up in the head of its tuple
+const headSize = (param: ParamType): number => (isDynamic(param) ? 32 : staticWords(param).length * 32);
+
+// work out how the dynamic values of a tuple were laid out, given where each one starts and ends in param order
+const findLayoutFeatures = (state: CheckState, tails: ReadonlyArray<[number, number]>, headEnd: number) => {
+    if (tails.some(([start], i) => i > 0 && start < tails[i - 1][0])) {
+        state.features.add('out-of-order-tails');
+    }
+
+    let used = headEnd;
+    const sorted = [...tails].sort((a, b) => a[0] - b[0]);
+    sorted.forEach(([start, end], i) => {
+        if (i > 0 && start === sorted[i - 1][0]) {
+            state.features.add('shared-tails');
+        } else if (start < used) {
+            state.features.add('overlapping-tails');
+        } else if (start > used) {
+            state.features.add('gaps');
+        }
+        used = Math.max(used, end);
+    });
+};
+
+// check every param of the tuple at base, returning where its encoding ends if it was encoded canonically
+// the encoding ends after the head and the tails of every dynamic param, which follow each other in order
+const checkTuple = (
+    state: CheckState,
+    params: ReadonlyArray<ParamType>,
+    pathOf: (idx: number) => string,
+    base: number,
+    end: number,
+): number | null => {
+    let pos = base;
+    let tail = base + params.reduce((size, v) => size + headSize(v), 0);
+    const headEnd = tail;
+
+    // where the dynamic value of each dynamic param starts and ends, in the order of the params
+    const tails: Array<[number, number]> = [];
+    if (tail > end) {
+        report(
+            state,
+            'out-of-bounds',
+            pos,
+            pathOf(0),
+            `expected ${tail - base} bytes of head but only found ${end - base}`,
+        );
+        return null;
+    }
+
+    for (let i = 0; i < params.length; i++) {
+        const param = params[i];
+        const path = pathOf(i);
+
+        if (!isDynamic(param)) {
+            const next = checkParam(state, param, path, pos, end);
+            if (next === null) return null;
+            pos = next;
+            continue;
+        }
+
+        // offsets are relative to the start of the tuple
+        const offset = tryParseOffset(state.view, base, end, pos - base);
+        if (offset === null) {
+            report(
+                state,
+                'bad-offset',
+                pos,
+                path,
+                `${hexlify(state.view.data.subarray(pos, pos + 32))} is not a valid offset`,
+            );
+            return null;
+        }
+        if (base + offset !== tail) {
+            report(
+                state,
+                'non-canonical-layout',
+                pos,
+                path,
+                `offset is ${offset} but the value should start right after the previous one at ${tail - base}`,
+            );
+        }
+
+        const next = checkParam(state, param, path, base + offset, end);
+        if (next === null) return null;
+        tails.push([base + offset, next]);
+        tail = Math.max(tail, next);
+        pos += 32;
+    }
+
+    findLayoutFeatures(state, tails, headEnd);
+    return tail;
+};
+
+// check a single value at pos, returning where its encoding ends if it was encoded canonically
+const checkParam = (state: CheckState, param: ParamType, path: string, pos: number, end: number): number | null => {
+    if (param.baseType === 'tuple') {
+        return checkTuple(state, param.components, (i) => `${path}.${i}`, pos, end);
+    } else if (param.baseType === 'array') {
+        let count = param.arrayLength;
+        let base = pos;
+        if (count === -1) {
+            // the length counts elements rather than bytes, but every element takes up at least a byte
+            const length = tryParseLength(state.view, pos, end, 0);
+            if (length === null) {
+                report(state, 'bad-length', pos, path, 'the array has more elements than fit in the data');
+                return null;
+            }
+            count = length;
+            base += 32;
+        }
+
+        const children = Array.from(Array(count).keys()).map(() => param.arrayChildren);
+        return checkTuple(state, children, (i) => `${path}[${i}]`, base, end);
+    } else if (param.baseType === 'bytes' || param.baseType === 'string') {
+        const length = tryParseLength(state.view, pos, end, 0);
+        if (length === null) {
+            report(state, 'bad-length', pos, path, `the ${param.baseType} is longer than the data`);
+            return null;
+        }
+
+        const contents = state.view.data.subarray(pos + 32, pos + 32 + length);
+        const next = pos + 32 + Math.ceil(length / 32) * 32;
+        if (next > end) {
+            report(state, 'out-of-bounds', pos + 32 + length, path, `the ${param.baseType} is not padded to a word`);
+            return null;
+        }
+
+        const padding = state.view.data.subarray(pos + 32 + length, next);
+        const dirty = padding.findIndex((v) => v !== 0);
+        if (dirty !== -1) {
+            report(
+                state,
+                'dirty-padding',
+                pos + 32 + length + dirty,
+                path,
+                `the ${param.baseType} has non-zero padding`,
+            );
+        }
+
+        if (param.baseType === 'string') {
+            try {
+                toUtf8String(contents);
+            } catch {
+                report(state, 'invalid-utf8', pos + 32, path, 'the string is not valid utf-8');
+            }
+        }
+        return next;
+    } else if (param.baseType === '') {
+        // empty tuples take up no space
+        return pos;
+    }
+
+    if (pos + 32 > end) {
+        report(state, 'out-of-bounds', pos, path, `expected a ${param.type} but the data ended`);
+        return null;
+    }
+    if (!fitsStaticValue(state.view, param, pos)) {
+        report(
+            state,
+            'dirty-bits',
+            pos,
+            path,
+            `${hexlify(state.view.data.subarray(pos, pos + 32))} is not a clean ${param.type}`,
+        );
+    }
+    return pos + 32;
+};
+
+/*
+check whether the data really was encoded with the given signature, and if not, find out where it goes wrong.
+the signature is either a function, ex: transfer(address,uint256), in which case the data is calldata and the
+selector is checked too, or a bare list of params, ex: (address,uint256), in which case the data is just the
+encoded params. on top of whether ethers can decode the data, we check that the data is exactly what solidity
+would have encoded: offsets are in range and every value directly follows the one before it, padding and unused
+bits are zero, and there's nothing after the last value
+ */
+export const checkSignature = (data: BytesLike, signature: string): SignatureCheck => {
+    const bytes = arrayify(data);
+
+    let params: ParamType[];
+    let selectorMatches: boolean | null = null;
+    let tupleData = bytes;
+    if (signature.trim().startsWith('(')) {
+        params = ParamType.from(signature).components;
+    } else {
+        const fragment = FunctionFragment.from(signature);
+        params = fragment.inputs;
+        selectorMatches = hexlify(bytes.slice(0, 4)) === Interface.getSighash(fragment);
+        tupleData = bytes.slice(4);
+    }
+
+    let decodes = true;
+    try {
+        // ethers only throws some errors once the value is accessed
+        Array.from(defaultAbiCoder.decode(params, tupleData));
+    } catch {
+        decodes = false;
+    }
+
+    const state: CheckState = { view: createWordView(tupleData), issues: [], features: new Set() };
+    const encodedEnd = checkTuple(state, params, (i) => `${i}`, 0, tupleData.length);
+    if (encodedEnd !== null && encodedEnd < tupleData.length) {
+        state.features.add('trailing-bytes');
+        report(
+            state,
+            'trailing-bytes',
+            encodedEnd,
+            '',
+            `found ${tupleData.length - encodedEnd} bytes after the last value`,
+        );
+    }
+
+    const issues = state.issues.sort((a, b) => a.pos - b.pos);
+    return {
+        params,
+        selectorMatches,
+        decodes,
+        canonical: decodes && selectorMatches !== false && issues.length === 0,
+        issues,
+        features: Array.from(state.features),
+        firstDivergentWord: issues.length > 0 ? issues[0].word : null,
+    };
+};
@@ -0,0 +1,82 @@
+import { FunctionFragment, ParamType } from '@ethersproject/abi';
+import { areParamsEquivalent, canonicalizeFragment, canonicalizeParams, findParamsDifference } from './equivalence';
+
+const params = (...types: string[]) => types.map((v) => ParamType.from(v));
+const format = (params: ReadonlyArray<ParamType>) => params.map((v) => v.format());
+
+describe('equivalence', () => {
+    it('should flatten static tuples and arrays', () => {
+        expect(
+            format(
+                canonicalizeParams(params('(bytes4,bytes32)', 'uint256[2]'), [
+                    [
+                        ['0x12345678', '0x' + '00'.repeat(32)],
+                        [1, 2],
+                    ],
+                ]),
+            ),
+        ).toEqual(['bytes4', 'bytes32', 'uint256', 'uint256']);
+
+        // unless they're behind an offset
+        expect(
+            format(
+                canonicalizeParams(params('(string,bytes32)', 'string[2]'), [
+                    [
+                        ['a', '0x' + '00'.repeat(32)],
+                        ['b', 'c'],
+                    ],
+                ]),
+            ),
+        ).toEqual(['(string,bytes32)', '(string,string)']);
+        expect(format(canonicalizeParams(params('(uint256,uint256)[]'), [[[[1, 2]]]]))).toEqual([
+            '(uint256,uint256)[]',
+        ]);
+    });
+
+    it('should erase the types of values that are always empty', () => {
+        const fragment = FunctionFragment.from('func((uint256,string,bytes)[],bytes,uint256)');
+
+        expect(canonicalizeFragment(fragment, [[[], '0x', 1]]).format()).toBe('func(()[],()[],uint256)');
+        expect(
+            canonicalizeFragment(fragment, [
+                [[], '0x', 1],
+                [[[1, 'a', '0x']], '0x01', 1],
+            ]).format(),
+        ).toBe('func((uint256,string,()[])[],bytes,uint256)');
+    });
+
+    it('should only keep signed integers which are negative', () => {
+        expect(format(canonicalizeParams(params('int8', 'int256'), [[1, '-1000000000000']]))).toEqual([
+            'uint8',
+            'int256',
+        ]);
+
+        // small negative numbers look like type(uint256).max minus a little
+        expect(format(canonicalizeParams(params('int256'), [[-1]]))).toEqual(['uint256']);
+    });
+
+    it('should only compare word types by their sign', () => {
+        expect(
+            findParamsDifference(params('address', 'bytes32', 'string'), params('uint256', 'uint8', 'bytes')),
+        ).toBeNull();
+        expect(findParamsDifference(params('int256'), params('uint256'))).toBe('int256 !== uint256');
+        expect(findParamsDifference(params('uint256'), params('uint256', 'uint256'))).toBe(
+            '1 != 2 (uint256 != uint256,uint256)',
+        );
+        expect(findParamsDifference(params('uint256[]'), params('(uint256)'))).toBe('array != tuple');
+    });
+
+    it('should compare params by what they encode', () => {
+        const args = [[['0x111A66beC9536aF6DA69Dd198F5252857dFB2FB1', 5], '']];
+
+        expect(
+            areParamsEquivalent(params('(address,uint256)', 'string'), params('address', 'uint256', '()[]'), args),
+        ).toBe(true);
+        expect(
+            areParamsEquivalent(params('(address,uint256)', 'string'), params('uint256', 'uint256', 'bytes'), args),
+        ).toBe(true);
+        expect(areParamsEquivalent(params('(address,uint256)', 'string'), params('uint256', 'string'), args)).toBe(
+            false,
+        );
+    });
+});
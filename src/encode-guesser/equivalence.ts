@@ -0,0 +1,193 @@
+import { defaultAbiCoder, FunctionFragment, ParamType } from '@ethersproject/abi';
+import { BigNumber } from 'ethers';
+import { arrayify } from 'ethers/lib/utils';
+import { isDynamic } from './structure';
+import { EMPTY_DYNAMIC } from './types';
+
+export { isDynamic } from './structure';
+
+// the most negative number that's still guessed as unsigned, since it's within 2^32 of type(uint256).max
+const MOST_NEGATIVE_NEAR_MAX = BigNumber.from(2).pow(32).mul(-1);
+
+const formatParams = (params: ReadonlyArray<ParamType>) => params.map((v) => v.format()).join(',');
+
+/*
+strip the information from the params that can't be recovered from the encoded data, given every set of values
+that was encoded with them. values are positional, like the ones ethers decodes. what the guesser can't recover:
+1) a tuple which does not contain any dynamic components has no offset, and is therefore indistinguishable from
+   its components one after the other, unless it's the child of an array
+   ex: func(uint256,(bytes4,bytes32),uint8) === func(uint256,bytes4,bytes32,uint8)
+   however: func(uint256,(string,bytes32),uint8) !== func(uint256,string,bytes32,uint8)
+2) if a dynamic array or bytestring is always empty, it's impossible to recover the types of its children (duh)
+   ex: func((uint256,string,bytes)[],uint256) === func(()[],uint256) if the first parameter has no children
+3) a static array looks identical to its element repeated, and an array of dynamic values like a dynamic tuple
+   ex: func(uint256[3]) === func(uint256,uint256,uint256)
+   ex: func(string[2]) === func((string,string))
+4) a signed integer is only distinguishable from an unsigned one if it's negative, and even then not if it's so
+   close to zero that it looks like type(uint256).max minus a little, see guessStaticType
+   ex: func(int256) === func(uint256) if the first parameter is never below -2^32
+ */
+export const canonicalizeParams = (
+    params: ReadonlyArray<ParamType>,
+    allArgs: ReadonlyArray<ReadonlyArray<any>>,
+): ParamType[] => canonicalize(params, allArgs, false);
+
+const canonicalize = (
+    params: ReadonlyArray<ParamType>,
+    allArgs: ReadonlyArray<ReadonlyArray<any>>,
+    isParentArray: boolean,
+): ParamType[] => {
+    const canonicalParams: ParamType[] = [];
+    for (const [idx, param] of params.entries()) {
+        if (param.baseType === 'tuple') {
+            const components = canonicalize(
+                param.components,
+                allArgs.map((args) => args[idx]),
+                false,
+            );
+
+            if (!isDynamic(param) && !isParentArray) {
+                // rule 1
+                canonicalParams.push(...components);
+            } else {
+                canonicalParams.push(ParamType.from(`(${formatParams(components)})`));
+            }
+        } else if (param.baseType === 'array') {
+            if (param.arrayLength !== -1) {
+                const elements = Array.from(Array(param.arrayLength).keys()).flatMap((i) =>
+                    canonicalize(
+                        [param.arrayChildren],
+                        allArgs.map((args) => [args[idx][i]]),
+                        false,
+                    ),
+                );
+
+                if (isDynamic(param)) {
+                    // rule 3, but the elements are behind an offset just like the components of a dynamic tuple
+                    canonicalParams.push(ParamType.from(`(${formatParams(elements)})`));
+                } else {
+                    // rule 3
+                    canonicalParams.push(...elements);
+                }
+            } else if (allArgs.find((args) => args[idx].length > 0) === undefined) {
+                // rule 2
+                canonicalParams.push(ParamType.from(EMPTY_DYNAMIC));
+            } else {
+                const children = canonicalize(
+                    [param.arrayChildren],
+                    allArgs.flatMap((args) => args[idx]).map((v) => [v]),
+                    true,
+                );
+
+                // a static array child is flattened into its elements, which are still encoded together
+                const child = children.length === 1 ? children[0] : ParamType.from(`(${formatParams(children)})`);
+                canonicalParams.push(ParamType.from(`${child.format()}[]`));
+            }
+        } else if (param.baseType === 'bytes' || param.baseType === 'string') {
+            // bytes are usually given as hex, which has a prefix even when empty
+            const lengthOf = (v: any): number => (param.baseType === 'bytes' ? arrayify(v).length : v.length);
+            if (allArgs.find((args) => lengthOf(args[idx]) > 0) === undefined) {
+                // rule 2
+                canonicalParams.push(ParamType.from(EMPTY_DYNAMIC));
+            } else {
+                canonicalParams.push(param);
+            }
+        } else if (
+            param.baseType.startsWith('int') &&
+            allArgs.every((args) => BigNumber.from(args[idx]).gte(MOST_NEGATIVE_NEAR_MAX))
+        ) {
+            // rule 4
+            canonicalParams.push(ParamType.from(`u${param.type}`));
+        } else {
+            canonicalParams.push(param);
+        }
+    }
+
+    return canonicalParams;
+};
+
+// like canonicalizeParams, but for the inputs of a function
+export const canonicalizeFragment = (
+    fragment: FunctionFragment,
+    allArgs: ReadonlyArray<ReadonlyArray<any>>,
+): FunctionFragment => {
+    const params = canonicalizeParams(fragment.inputs, allArgs);
+    return FunctionFragment.from(`${fragment.name}(${formatParams(params)})`);
+};
+
+// every single word type is encoded the same way, and so are strings and bytes. the only thing the data can tell
+// us about a word is whether it's signed
+const normalizeType = (type: string): string => {
+    if (/^uint[0-9]+$/.test(type)) return 'uint256';
+    else if (/^int[0-9]+$/.test(type)) return 'int256';
+    else if (/^bytes[0-9]+$/.test(type)) return 'uint256';
+    else if (type === 'bool') return 'uint256';
+    else if (type === 'string') return 'bytes';
+    else if (type === 'address') return 'uint256';
+
+    return type;
+};
+
+/*
+compare two canonical lists of params, see canonicalizeParams. word types are only compared by their sign and
+strings are the same as bytes, since the guesser can only tell them apart by looking at their values. returns a
+description of the first difference, or null if there is none
+ */
+export const findParamsDifference = (
+    expected: ReadonlyArray<ParamType>,
+    actual: ReadonlyArray<ParamType>,
+): string | null => {
+    if (expected.length !== actual.length) {
+        return `${expected.length} != ${actual.length} (${formatParams(expected)} != ${formatParams(actual)})`;
+    }
+
+    for (let i = 0; i < expected.length; i++) {
+        const left = expected[i];
+        const right = actual[i];
+
+        if (left.baseType === 'array') {
+            if (left.baseType !== right.baseType) {
+                return `${left.baseType} != ${right.baseType}`;
+            }
+            if (left.arrayLength !== right.arrayLength) {
+                return `${left.arrayLength} != ${right.arrayLength}`;
+            }
+
+            const difference = findParamsDifference([left.arrayChildren], [right.arrayChildren]);
+            if (difference !== null) return difference;
+        } else if (left.baseType === 'tuple') {
+            if (left.baseType !== right.baseType) {
+                return `${left.baseType} != ${right.baseType}`;
+            }
+
+            const difference = findParamsDifference(left.components, right.components);
+            if (difference !== null) return difference;
+        } else if (normalizeType(left.type) !== normalizeType(right.type)) {
+            return `${left.type} !== ${right.type}`;
+        }
+    }
+    return null;
+};
+
+/*
+check if the data encoded with the expected params for every set of values would be guessed as the actual params,
+as far as the guesser can tell them apart. both are canonicalized first, the actual params with the values they
+decode the same data to. returns false if the actual params can't decode the data at all
+ */
+export const areParamsEquivalent = (
+    expected: ReadonlyArray<ParamType>,
+    actual: ReadonlyArray<ParamType>,
+    allArgs: ReadonlyArray<ReadonlyArray<any>>,
+): boolean => {
+    let actualArgs: Array<ReadonlyArray<any>>;
+    try {
+        // ethers only throws some errors once the value is accessed
+        actualArgs = allArgs.map((args) =>
+            Array.from(defaultAbiCoder.decode(actual, defaultAbiCoder.encode(expected, args))),
+        );
+    } catch {
+        return false;
+    }
+
+    return findParamsDifference(canonicalizeParams(expected, allArgs), canonicalizeParams(actual, actualArgs)) === null;
+};
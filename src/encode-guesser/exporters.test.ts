@@ -0,0 +1,99 @@
+import { ethers } from 'ethers';
+import { toJsonAbi, toSolidityInterface } from './exporters';
+import { guessEvent, guessFragment } from './guess';
+
+const abi = new ethers.utils.Interface([
+    'function submit((address,uint256)[] orders, (address,uint256)[] refunds, string memo)',
+    'event Transfer(address indexed from, address indexed to, uint256 value)',
+]);
+
+const submit = guessFragment(
+    abi.encodeFunctionData('submit', [
+        [
+            ['0x111a66bec9536af6da69dd198f5252857dfb2fb1', 1],
+            ['0x111a66bec9536af6da69dd198f5252857dfb2fb1', 2],
+        ],
+        [['0x111a66bec9536af6da69dd198f5252857dfb2fb1', 3]],
+        'hello',
+    ]),
+)!;
+
+describe('exporters', () => {
+    it('should export json abi entries with components', () => {
+        const log = abi.encodeEventLog(abi.getEvent('Transfer'), [
+            '0x111a66bec9536af6da69dd198f5252857dfb2fb1',
+            '0x111a66bec9536af6da69dd198f5252857dfb2fb1',
+            1234,
+        ]);
+        const [func, event] = toJsonAbi([submit, guessEvent(log.topics, log.data)!]);
+
+        expect(func).toEqual({
+            type: 'function',
+            name: submit.name,
+            inputs: [
+                {
+                    name: 'arg0',
+                    type: 'tuple[]',
+                    internalType: 'struct Struct0[]',
+                    components: [
+                        { name: 'field0', type: 'address', internalType: 'address' },
+                        { name: 'field1', type: 'uint256', internalType: 'uint256' },
+                    ],
+                },
+                {
+                    name: 'arg1',
+                    type: 'tuple[]',
+                    internalType: 'struct Struct0[]',
+                    components: [
+                        { name: 'field0', type: 'address', internalType: 'address' },
+                        { name: 'field1', type: 'uint256', internalType: 'uint256' },
+                    ],
+                },
+                { name: 'arg2', type: 'string', internalType: 'string' },
+            ],
+            outputs: [],
+            stateMutability: 'nonpayable',
+        });
+        expect(event.inputs.map((v) => v.indexed)).toEqual([true, true, false]);
+        expect(event.anonymous).toBe(false);
+
+        // the result is something ethers understands
+        expect(new ethers.utils.Interface([func]).getFunction(submit.name).format()).toBe(submit.format());
+    });
+
+    it('should export a solidity interface with structs', () => {
+        expect(toSolidityInterface([submit, submit])).toBe(
+            [
+                '// SPDX-License-Identifier: UNLICENSED',
+                'pragma solidity ^0.8.4;',
+                '',
+                'interface IGuessed {',
+                '    struct Struct0 {',
+                '        address field0;',
+                '        uint256 field1;',
+                '    }',
+                '',
+                `    function ${submit.name}(Struct0[] calldata arg0, Struct0[] calldata arg1, string calldata arg2) external;`,
+                '}',
+                '',
+            ].join('\n'),
+        );
+    });
+
+    it('should rewrite empty values into something solidity can express', () => {
+        const fragment = ethers.utils.FunctionFragment.from('guessed_12345678((),()[],uint256)');
+
+        expect(toSolidityInterface([fragment])).toContain(
+            'function guessed_12345678(bytes calldata arg0, uint256 arg1) external;',
+        );
+    });
+
+    it('should rewrite empty values the same way in the json abi', () => {
+        const fragment = ethers.utils.FunctionFragment.from('guessed_12345678((),()[],uint256)');
+
+        expect(toJsonAbi([fragment])[0].inputs).toEqual([
+            { name: 'arg0', type: 'bytes', internalType: 'bytes' },
+            { name: 'arg1', type: 'uint256', internalType: 'uint256' },
+        ]);
+    });
+});
@@ -0,0 +1,229 @@
+import { ErrorFragment, EventFragment, FunctionFragment, ParamType } from '@ethersproject/abi';
+
+export type ExportableFragment = FunctionFragment | EventFragment | ErrorFragment;
+
+export type JsonAbiParam = {
+    name: string;
+    type: string;
+    // the type as solidity sees it, ex: struct Struct0[]
+    internalType: string;
+    indexed?: boolean;
+    components?: JsonAbiParam[];
+};
+
+export type JsonAbiEntry = {
+    type: 'function' | 'event' | 'error';
+    name: string;
+    inputs: JsonAbiParam[];
+    outputs?: JsonAbiParam[];
+    stateMutability?: string;
+    anonymous?: boolean;
+};
+
+// guessed params have no names, so make some up. real names are kept
+const paramName = (param: ParamType, idx: number) => param.name || `arg${idx}`;
+const fieldName = (param: ParamType, idx: number) => param.name || `field${idx}`;
+
+// the suffix of an array type, ex: [] or [2]
+const arraySuffix = (param: ParamType) => `[${param.arrayLength === -1 ? '' : param.arrayLength}]`;
+
+// ethers parses () as a tuple with a single empty component, which isn't a real component
+const componentsOf = (tuple: ParamType) => tuple.components.filter((v) => v.baseType !== '');
+
+// gives every distinct tuple type a struct name, in the order they're first seen
+class StructNames {
+    readonly structs: Array<[string, ParamType]> = [];
+    private readonly names = new Map<string, string>();
+
+    nameOf(tuple: ParamType): string {
+        // names don't change the layout, so structs which only differ by names are the same struct
+        const key = tuple.format();
+
+        let name = this.names.get(key);
+        if (name === undefined) {
+            // name the components first, so structs are always declared after the structs they use
+            componentsOf(tuple).forEach((v) => this.typeOf(v));
+
+            name = `Struct${this.structs.length}`;
+            this.names.set(key, name);
+            this.structs.push([name, tuple]);
+        }
+        return name;
+    }
+
+    // the solidity type of the param
+    typeOf(param: ParamType): string {
+        if (param.baseType === 'tuple') {
+            return this.nameOf(param);
+        } else if (param.baseType === 'array') {
+            return `${this.typeOf(param.arrayChildren)}${arraySuffix(param)}`;
+        }
+        return param.type;
+    }
+}
+
+// whether the param takes up no space in the head, like an empty tuple or a zero-length fixed array
+const isZeroSized = (param: ParamType): boolean => {
+    if (param.baseType === 'tuple') {
+        return param.components.every(isZeroSized);
+    } else if (param.baseType === 'array') {
+        return param.arrayLength === 0 || (param.arrayLength !== -1 && isZeroSized(param.arrayChildren));
+    }
+    return param.baseType === '';
+};
+
+// solidity has no empty structs, so rewrite every param into something with the exact same encoding
+// - zero sized values take up no space at all, so they can just be dropped
+// - an empty dynamic array of empty tuples (the marker for an empty value) is encoded like an empty bytes
+const toSolidityParams = (params: ReadonlyArray<ParamType>): ParamType[] => {
+    return params
+        .filter((v) => !isZeroSized(v))
+        .map((param) => {
+            if (param.baseType === 'tuple') {
+                return ParamType.fromObject({
+                    name: param.name,
+                    type: 'tuple',
+                    indexed: param.indexed,
+                    components: toSolidityParams(param.components),
+                });
+            } else if (param.baseType === 'array' && isZeroSized(param.arrayChildren)) {
+                return ParamType.fromObject({ name: param.name, type: 'bytes', indexed: param.indexed });
+            } else if (param.baseType === 'array') {
+                const [child] = toSolidityParams([param.arrayChildren]);
+                return ParamType.fromObject({
+                    name: param.name,
+                    type: `${child.type}${arraySuffix(param)}`,
+                    indexed: param.indexed,
+                    components: child.components,
+                });
+            }
+            return param;
+        });
+};
+
+const toJsonParam = (param: ParamType, name: string, structs: StructNames): JsonAbiParam => {
+    // the abi calls every tuple a tuple, no matter how deep in arrays it is, which is what ethers does too
+    const result: JsonAbiParam = { name, type: param.type, internalType: structs.typeOf(param) };
+
+    let inner = param;
+    while (inner.baseType === 'array') {
+        inner = inner.arrayChildren;
+    }
+    if (inner.baseType === 'tuple') {
+        result.internalType = `struct ${result.internalType}`;
+        result.components = componentsOf(inner).map((v, i) => toJsonParam(v, fieldName(v, i), structs));
+    }
+    return result;
+};
+
+/*
+turn guessed fragments into standard json abi entries, such as what solc outputs. tuples get their components
+and a placeholder struct name, and params without a name get a placeholder name. empty values are rewritten just
+like in toSolidityInterface, so both describe the same params
+ */
+export const toJsonAbi = (fragments: ReadonlyArray<ExportableFragment>): JsonAbiEntry[] => {
+    const structs = new StructNames();
+    const toInputs = (inputs: ReadonlyArray<ParamType>) =>
+        toSolidityParams(inputs).map((v, i) => toJsonParam(v, paramName(v, i), structs));
+
+    return fragments.map((fragment): JsonAbiEntry => {
+        if (FunctionFragment.isFunctionFragment(fragment)) {
+            return {
+                type: 'function',
+                name: fragment.name,
+                inputs: toInputs(fragment.inputs),
+                outputs: toInputs(fragment.outputs ?? []),
+                stateMutability: fragment.stateMutability,
+            };
+        } else if (EventFragment.isEventFragment(fragment)) {
+            // every event input says whether it's indexed or not
+            return {
+                type: 'event',
+                name: fragment.name,
+                inputs: toSolidityParams(fragment.inputs).map((v, i) => ({
+                    ...toJsonParam(v, paramName(v, i), structs),
+                    indexed: !!v.indexed,
+                })),
+                anonymous: fragment.anonymous,
+            };
+        }
+        return { type: 'error', name: fragment.name, inputs: toInputs(fragment.inputs) };
+    });
+};
+
+// reference types need a data location in external functions
+const isReferenceType = (param: ParamType) =>
+    param.baseType === 'tuple' ||
+    param.baseType === 'array' ||
+    param.baseType === 'bytes' ||
+    param.baseType === 'string';
+
+/*
+turn guessed fragments into the source of a solidity interface, with a struct for every distinct tuple type and
+placeholder names for every unnamed param. solidity can't express empty values, so values which take up no
+space are left out and empty values of unknown type become bytes, neither of which changes the encoding
+ */
+export const toSolidityInterface = (
+    fragments: ReadonlyArray<ExportableFragment>,
+    name: string = 'IGuessed',
+): string => {
+    const structs = new StructNames();
+
+    const formatParams = (params: ReadonlyArray<ParamType>, location: string | null) =>
+        toSolidityParams(params)
+            .map((v, i) => {
+                const parts = [structs.typeOf(v)];
+                if (v.indexed) parts.push('indexed');
+                if (location !== null && isReferenceType(v)) parts.push(location);
+                parts.push(paramName(v, i));
+                return parts.join(' ');
+            })
+            .join(', ');
+
+    const declarations: string[] = [];
+    for (const fragment of fragments) {
+        let declaration: string;
+        if (FunctionFragment.isFunctionFragment(fragment)) {
+            const mutability = fragment.stateMutability === 'nonpayable' ? '' : ` ${fragment.stateMutability}`;
+            const outputs =
+                fragment.outputs && fragment.outputs.length > 0
+                    ? ` returns (${formatParams(fragment.outputs, 'memory')})`
+                    : '';
+            declaration = `function ${fragment.name}(${formatParams(
+                fragment.inputs,
+                'calldata',
+            )}) external${mutability}${outputs};`;
+        } else if (EventFragment.isEventFragment(fragment)) {
+            declaration = `event ${fragment.name}(${formatParams(fragment.inputs, null)})${
+                fragment.anonymous ? ' anonymous' : ''
+            };`;
+        } else {
+            declaration = `error ${fragment.name}(${formatParams(fragment.inputs, null)});`;
+        }
+
+        // the same guess can easily show up more than once
+        if (!declarations.includes(declaration)) {
+            declarations.push(declaration);
+        }
+    }
+
+    const structDeclarations = structs.structs.map(([structName, tuple]) =>
+        [
+            `    struct ${structName} {`,
+            ...toSolidityParams(tuple.components).map((v, i) => `        ${structs.typeOf(v)} ${fieldName(v, i)};`),
+            '    }',
+        ].join('\n'),
+    );
+
+    return [
+        '// SPDX-License-Identifier: UNLICENSED',
+        'pragma solidity ^0.8.4;',
+        '',
+        `interface ${name} {`,
+        [...structDeclarations, declarations.map((v) => `    ${v}`).join('\n')]
+            .filter((v) => v.length > 0)
+            .join('\n\n'),
+        '}',
+        '',
+    ].join('\n');
+};
@@ -0,0 +1,48 @@
+import { FunctionFragment } from '@ethersproject/abi';
+import { fuzzGuesser } from './fuzz';
+import * as exported from './index';
+
+describe('fuzz', () => {
+    it('should generate the same cases for the same seed', () => {
+        const calldata = (seed: number) => {
+            const seen: string[] = [];
+            fuzzGuesser({
+                runs: 10,
+                seed,
+                guesser: (v) => {
+                    seen.push(v);
+                    return null;
+                },
+            });
+            return seen;
+        };
+
+        expect(calldata(7)).toEqual(calldata(7));
+        expect(calldata(7)).not.toEqual(calldata(8));
+    });
+
+    it('should measure the accuracy of the guesser', () => {
+        const report = fuzzGuesser({ runs: 20, maxDepth: 1, maxParams: 2 });
+
+        expect(report.runs).toBe(20);
+        expect(report.passed + report.failures.length).toBe(20);
+        expect(report.accuracy).toBeGreaterThan(0.5);
+    });
+
+    it('should minimize counterexamples', () => {
+        // a guesser that never finds any params
+        const guesser = () => FunctionFragment.from('func()');
+        const report = fuzzGuesser({ runs: 5, guesser });
+
+        expect(report.accuracy).toBe(0);
+        for (const failure of report.failures) {
+            expect(failure.minimized.params.length).toBeLessThanOrEqual(failure.original.params.length);
+            expect(failure.minimized.params).toHaveLength(1);
+            expect(failure.reason).toMatch(/^1 != 0/);
+        }
+    });
+
+    it('should be exported from the package', () => {
+        expect(exported.fuzzGuesser).toBe(fuzzGuesser);
+    });
+});
@@ -0,0 +1,291 @@
+import { defaultAbiCoder, FunctionFragment, ParamType } from '@ethersproject/abi';
+import { BigNumber } from 'ethers';
+import { hexlify } from 'ethers/lib/utils';
+import { canonicalizeParams, findParamsDifference } from './equivalence';
+import { guessFragment } from './guess';
+
+export type FuzzOptions = {
+    // how many random cases to try. defaults to 100
+    runs?: number;
+
+    // the same seed always generates the same cases. defaults to 1
+    seed?: number;
+
+    // how deeply arrays and tuples can be nested. defaults to 3
+    maxDepth?: number;
+
+    // the most top level params in a case. defaults to 4
+    maxParams?: number;
+
+    // the function under test. defaults to guessFragment with a budget of 100k steps, so no case takes forever
+    guesser?: (calldata: string) => FunctionFragment | null;
+};
+
+export type FuzzCase = {
+    // the params the calldata was encoded with
+    params: ParamType[];
+
+    // the values that were encoded
+    args: any[];
+
+    calldata: string;
+};
+
+export type FuzzFailure = {
+    // the case as it was generated
+    original: FuzzCase;
+
+    // the smallest case we could shrink it to that still fails
+    minimized: FuzzCase;
+
+    // what the guesser made of the minimized case
+    guessed: FunctionFragment | null;
+
+    // why the guess is wrong
+    reason: string;
+};
+
+export type FuzzReport = {
+    runs: number;
+    passed: number;
+
+    // the fraction of cases that were guessed correctly, between 0 and 1
+    accuracy: number;
+
+    failures: FuzzFailure[];
+};
+
+// the selector doesn't matter to the guesser
+const SELECTOR = '0xdeadbeef';
+
+// how many shrunk cases we're willing to try per failure
+const MAX_SHRINK_ATTEMPTS = 500;
+
+const LEAF_TYPES = [
+    'uint8',
+    'uint16',
+    'uint32',
+    'uint64',
+    'uint128',
+    'uint256',
+    'int8',
+    'int32',
+    'int128',
+    'int256',
+    'address',
+    'bool',
+    'bytes1',
+    'bytes4',
+    'bytes20',
+    'bytes32',
+    'bytes',
+    'string',
+];
+
+// a small seedable prng (mulberry32), returning numbers in [0, 1)
+const createRandom = (seed: number) => {
+    let state = seed >>> 0;
+    return (): number => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+type Random = () => number;
+
+const randomInt = (random: Random, min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+
+const randomBytes = (random: Random, length: number): string =>
+    hexlify(Array.from(Array(length).keys()).map(() => randomInt(random, 0, 255)));
+
+const generateType = (random: Random, depth: number): string => {
+    if (depth > 0 && random() < 0.3) {
+        switch (randomInt(random, 0, 2)) {
+            case 0:
+                return `${generateType(random, depth - 1)}[]`;
+            case 1:
+                return `${generateType(random, depth - 1)}[${randomInt(random, 1, 3)}]`;
+            default: {
+                const components = Array.from(Array(randomInt(random, 1, 3)).keys());
+                return `(${components.map(() => generateType(random, depth - 1)).join(',')})`;
+            }
+        }
+    }
+    return LEAF_TYPES[randomInt(random, 0, LEAF_TYPES.length - 1)];
+};
+
+// a random number of up to bits bits, most often a small one
+const generateNumber = (random: Random, bits: number): BigNumber => {
+    const size = randomInt(random, 1, Math.ceil(randomInt(random, 1, bits) / 8));
+    return BigNumber.from(randomBytes(random, size)).mask(bits);
+};
+
+const generateValue = (random: Random, param: ParamType): any => {
+    if (param.baseType === 'tuple') {
+        return param.components.map((v) => generateValue(random, v));
+    } else if (param.baseType === 'array') {
+        const length = param.arrayLength === -1 ? randomInt(random, 0, 3) : param.arrayLength;
+        return Array.from(Array(length).keys()).map(() => generateValue(random, param.arrayChildren));
+    } else if (param.baseType === 'bytes') {
+        return randomBytes(random, randomInt(random, 0, 64));
+    } else if (param.baseType === 'string') {
+        const length = randomInt(random, 0, 32);
+        return String.fromCharCode(...Array.from(Array(length).keys()).map(() => randomInt(random, 0x20, 0x7e)));
+    } else if (param.baseType === 'address') {
+        return randomBytes(random, 20);
+    } else if (param.baseType === 'bool') {
+        return random() < 0.5;
+    } else if (param.baseType.startsWith('bytes')) {
+        return randomBytes(random, parseInt(param.baseType.substring(5)));
+    } else if (param.baseType.startsWith('uint')) {
+        return generateNumber(random, parseInt(param.baseType.substring(4)));
+    }
+
+    // ints get one bit less, so there's room for the sign
+    const value = generateNumber(random, parseInt(param.baseType.substring(3)) - 1);
+    return random() < 0.5 ? value.mul(-1) : value;
+};
+
+const createCase = (params: ParamType[], args: any[]): FuzzCase => ({
+    params,
+    args,
+    calldata: SELECTOR + defaultAbiCoder.encode(params, args).substring(2),
+});
+
+// check the guess for a case, returning why it's wrong or null if it's right
+const checkCase = (
+    testCase: FuzzCase,
+    guesser: (calldata: string) => FunctionFragment | null,
+): [FunctionFragment | null, string | null] => {
+    const guessed = guesser(testCase.calldata);
+    if (!guessed) return [null, 'could not be guessed'];
+
+    const expected = canonicalizeParams(testCase.params, [testCase.args]);
+    return [guessed, findParamsDifference(expected, guessed.inputs)];
+};
+
+// simpler versions of a value of the given type, simplest first
+const shrinkValue = (param: ParamType, value: any): any[] => {
+    const shrinkEach = (types: ParamType[], values: any[]) =>
+        values.flatMap((v, i) => shrinkValue(types[i], v).map((w) => values.map((x, j) => (j === i ? w : x))));
+
+    if (param.baseType === 'tuple') {
+        return shrinkEach(param.components, value);
+    } else if (param.baseType === 'array') {
+        const shrunk = shrinkEach(
+            value.map(() => param.arrayChildren),
+            value,
+        );
+        if (param.arrayLength !== -1 || value.length === 0) return shrunk;
+        return [value.slice(1), value.slice(0, -1), ...shrunk];
+    } else if (param.baseType === 'bytes') {
+        const length = (value.length - 2) / 2;
+        return length === 0 ? [] : ['0x', value.substring(0, 2 + Math.floor(length / 2) * 2)];
+    } else if (param.baseType === 'string') {
+        return value.length === 0 ? [] : ['', value.substring(0, Math.floor(value.length / 2))];
+    } else if (param.baseType === 'bool') {
+        return value ? [false] : [];
+    } else if (param.baseType.startsWith('uint') || param.baseType.startsWith('int')) {
+        const number = BigNumber.from(value);
+        return number.isZero() ? [] : [BigNumber.from(0), number.div(2)];
+    }
+    return [];
+};
+
+// simpler versions of a case, with fewer params, simpler types or simpler values
+const shrinkCase = function* (testCase: FuzzCase): Generator<[ParamType[], any[]]> {
+    const { params, args } = testCase;
+    const replace = <T>(values: T[], idx: number, replacement: T[]) => [
+        ...values.slice(0, idx),
+        ...replacement,
+        ...values.slice(idx + 1),
+    ];
+
+    for (let i = 0; i < params.length; i++) {
+        if (params.length > 1) {
+            yield [replace(params, i, []), replace(args, i, [])];
+        }
+
+        // a tuple can be replaced by its components, and an array by any of its elements
+        if (params[i].baseType === 'tuple') {
+            yield [replace(params, i, params[i].components), replace(args, i, args[i])];
+        } else if (params[i].baseType === 'array' && args[i].length > 0) {
+            yield [replace(params, i, [params[i].arrayChildren]), replace(args, i, [args[i][0]])];
+        }
+    }
+
+    for (let i = 0; i < params.length; i++) {
+        for (const value of shrinkValue(params[i], args[i])) {
+            yield [params, replace(args, i, [value])];
+        }
+    }
+};
+
+// shrink a failing case for as long as it keeps failing
+const minimizeCase = (
+    testCase: FuzzCase,
+    guesser: (calldata: string) => FunctionFragment | null,
+): [FuzzCase, FunctionFragment | null, string] => {
+    let [guessed, reason] = checkCase(testCase, guesser);
+    let attempts = 0;
+
+    let shrunk = true;
+    while (shrunk && attempts < MAX_SHRINK_ATTEMPTS) {
+        shrunk = false;
+        for (const [params, args] of shrinkCase(testCase)) {
+            if (++attempts > MAX_SHRINK_ATTEMPTS) break;
+
+            let candidate: FuzzCase;
+            try {
+                candidate = createCase(params, args);
+            } catch {
+                // shrinking can produce values that don't fit their types anymore
+                continue;
+            }
+
+            const [candidateGuess, candidateReason] = checkCase(candidate, guesser);
+            if (candidateReason !== null) {
+                [testCase, guessed, reason] = [candidate, candidateGuess, candidateReason];
+                shrunk = true;
+                break;
+            }
+        }
+    }
+    return [testCase, guessed, reason!];
+};
+
+/*
+generate random nested params and values, encode them, and check that the guesser recovers everything that can
+be recovered from the data (see canonicalizeParams). every failing case is shrunk to a smaller one that still
+fails, which is usually much easier to debug. the report is deterministic for a given seed, so the accuracy can
+be compared before and after the heuristics change
+ */
+export const fuzzGuesser = (options: FuzzOptions = {}): FuzzReport => {
+    const random = createRandom(options.seed ?? 1);
+    const runs = options.runs ?? 100;
+    const guesser = options.guesser ?? ((calldata: string) => guessFragment(calldata, { maxSteps: 100_000 }));
+
+    const failures: FuzzFailure[] = [];
+    for (let run = 0; run < runs; run++) {
+        const count = randomInt(random, 1, options.maxParams ?? 4);
+        const params = Array.from(Array(count).keys()).map(() =>
+            ParamType.from(generateType(random, options.maxDepth ?? 3)),
+        );
+        const original = createCase(
+            params,
+            params.map((v) => generateValue(random, v)),
+        );
+
+        const [, reason] = checkCase(original, guesser);
+        if (reason === null) continue;
+
+        const [minimized, guessed, minimizedReason] = minimizeCase(original, guesser);
+        failures.push({ original, minimized, guessed, reason: minimizedReason });
+    }
+
+    const passed = runs - failures.length;
+    return { runs, passed, accuracy: runs === 0 ? 1 : passed / runs, failures };
+};
@@ -0,0 +1,126 @@
+import { FunctionFragment } from '@ethersproject/abi';
+import { ethers } from 'ethers';
+import { guessFragment, guessFragmentCandidates } from './guess';
+import { chainTestcases, handwrittenTestcases } from './guess.fixtures';
+
+// keep running each case for at least this long, so the fast ones still get a meaningful number of runs
+const TARGET_MS = 200;
+
+type Measurement = {
+    name: string;
+    runs: number;
+    // the mean time per run, in milliseconds
+    guess: number;
+    candidates: number;
+};
+
+const measurements: Measurement[] = [];
+
+/*
+the mean times per run in milliseconds for guess and top 5, measured with this bench against the search as it was
+before it was memoized and validated structurally. they were measured back to back with the memoized search on
+a single machine, so the speedups are only meaningful on similar hardware. cases without a baseline were added
+later
+ */
+const BASELINE_MS: Record<string, [number, number]> = {
+    'empty array': [0.489, 1.704],
+    'empty string': [0.3, 1.112],
+    'empty tuple': [0.114, 0.103],
+    'simple uint': [0.079, 0.169],
+    'simple bytes32': [0.083, 0.121],
+    'simple bytes4': [0.069, 0.105],
+    'uint array/bytes confusion': [0.178, 1.68],
+    'fixed sized uint array': [0.34, 0.55],
+    'dynamic size uint array': [0.501, 2.319],
+    'simple bytes': [0.144, 0.884],
+    'short string': [0.135, 1.205],
+    'long string': [0.239, 1.636],
+    'long string array': [2.985, 23.02],
+    'top level tuple': [0.249, 0.337],
+    'array of tuples': [0.828, 2.796],
+    'string in array of tuples': [1.484, 14.639],
+    'string in array of single-component tuple': [1.521, 10.162],
+    'array of strings': [1.199, 5.609],
+    'array of tuple containing two dynamic elements': [4.193, 28.234],
+    'array of tuple of array of tuple': [10.625, 116.083],
+    'empty top level array': [2.671, 13.016],
+    'ethereum/0x3db540d6e84bd6fdc53b811fed04b503a451badea2c8c4d2ff6919d7bbde7d0d': [0.767, 4.595],
+    'ethereum/0x6150a49f6f56582f17d7ac808b6521f37f6a68a0b8ddabcd2e1cc86f76fb4e2f': [2.276, 18.238],
+    'ethereum/0x973646c73b52f72f7f1b813f4cc9a7c7ee531d16f3d7d1303bf3915065775acc': [335.035, 1925.277],
+};
+
+// run the function until the target time has passed, returning the mean time per run in milliseconds
+const measure = (fn: () => unknown): [number, number] => {
+    // warm up, so we don't measure the jit
+    fn();
+
+    let runs = 0;
+    const start = performance.now();
+    while (runs === 0 || performance.now() - start < TARGET_MS) {
+        fn();
+        runs++;
+    }
+    return [runs, (performance.now() - start) / runs];
+};
+
+const bench = (name: string, calldata: string) => {
+    it(name, () => {
+        expect(guessFragment(calldata)).not.toBeNull();
+
+        const [runs, guess] = measure(() => guessFragment(calldata));
+        const [, candidates] = measure(() => guessFragmentCandidates(calldata, 5));
+        measurements.push({ name, runs, guess, candidates });
+    });
+};
+
+describe('bench', () => {
+    handwrittenTestcases.forEach((testcase) => {
+        const fragment = FunctionFragment.from(testcase.signature);
+        const abi = new ethers.utils.Interface([fragment]);
+        bench(testcase.name, abi.encodeFunctionData(fragment, testcase.args));
+    });
+    chainTestcases.forEach((testcase) => {
+        bench(testcase.id, testcase.calldata);
+    });
+
+    afterAll(() => {
+        const cell = (v: number | undefined, width: number) => (v === undefined ? '-' : v.toFixed(3)).padStart(width);
+        const speedup = (before: number | undefined, after: number) =>
+            (before === undefined ? '-' : `${(before / after).toFixed(1)}x`).padStart(8);
+        const row = (name: string, guess: number, candidates: number, before: [number, number] | undefined) =>
+            [
+                name.padEnd(90),
+                cell(before?.[0], 10),
+                cell(guess, 10),
+                speedup(before?.[0], guess),
+                cell(before?.[1], 12),
+                cell(candidates, 12),
+                speedup(before?.[1], candidates),
+            ].join(' ');
+
+        const total = (key: 'guess' | 'candidates') => measurements.reduce((a, b) => a + b[key], 0);
+        const compared = measurements.filter((v) => BASELINE_MS[v.name] !== undefined);
+        const baselineTotal = (idx: 0 | 1) => compared.reduce((a, b) => a + BASELINE_MS[b.name][idx], 0);
+        const comparedTotal = (key: 'guess' | 'candidates') => compared.reduce((a, b) => a + b[key], 0);
+
+        require('console').log(
+            [
+                [
+                    'case'.padEnd(90),
+                    'before ms'.padStart(10),
+                    'guess ms'.padStart(10),
+                    'speedup'.padStart(8),
+                    'before ms'.padStart(12),
+                    'top 5 ms'.padStart(12),
+                    'speedup'.padStart(8),
+                ].join(' '),
+                ...measurements.map((v) => row(v.name, v.guess, v.candidates, BASELINE_MS[v.name])),
+                row('total with a baseline', comparedTotal('guess'), comparedTotal('candidates'), [
+                    baselineTotal(0),
+                    baselineTotal(1),
+                ]),
+                row('total', total('guess'), total('candidates'), undefined),
+            ].join('\n'),
+        );
+    });
+});
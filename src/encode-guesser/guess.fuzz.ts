@@ -0,0 +1,25 @@
+import { fuzzGuesser } from './fuzz';
+
+// how many cases to try and which ones, ex: FUZZ_RUNS=1000 FUZZ_SEED=42 npm run fuzz
+const RUNS = parseInt(process.env.FUZZ_RUNS ?? '500');
+const SEED = parseInt(process.env.FUZZ_SEED ?? '1');
+
+describe('fuzz', () => {
+    it(`should guess ${RUNS} random cases from seed ${SEED}`, () => {
+        const report = fuzzGuesser({ runs: RUNS, seed: SEED });
+
+        const rows = report.failures.map((v) =>
+            [
+                `params:   ${v.minimized.params.map((w) => w.format()).join(',')}`,
+                `calldata: ${v.minimized.calldata}`,
+                `guessed:  ${v.guessed?.format() ?? 'nothing'}`,
+                `reason:   ${v.reason}`,
+            ].join('\n'),
+        );
+        require('console').log(
+            [...rows, `accuracy: ${report.passed}/${report.runs} (${(report.accuracy * 100).toFixed(1)}%)`].join(
+                '\n\n',
+            ),
+        );
+    });
+});
@@ -1,6 +1,21 @@
 import { defaultAbiCoder, FunctionFragment, ParamType } from '@ethersproject/abi';
 import { BigNumber, ethers } from 'ethers';
-import { guessFragment } from './guess';
+import {
+    CallMetadata,
+    guessAbiEncodedData,
+    guessAbiEncodedDataWithBudget,
+    guessAbiEncodedDataWithTrailingData,
+    guessError,
+    guessEvent,
+    guessFragment,
+    guessFragmentCandidates,
+    guessFragmentWithBudget,
+    guessFragmentWithOutputs,
+    guessFragmentWithTrailingData,
+    guessNonCanonicalData,
+} from './guess';
+import { canonicalizeFragment, findParamsDifference } from './equivalence';
+import { chainTestcases, handwrittenTestcases } from './guess.fixtures';
 
 const jestConsole = console;
 
@@ -12,340 +27,6 @@ afterEach(() => {
     global.console = jestConsole;
 });
 
-type HandwrittenTestcase = {
-    name: string;
-    signature: string;
-    args: any[];
-};
-
-type ChainTestcase = {
-    id: string;
-    signature: string;
-    calldata: string;
-};
-
-const handwrittenTestcases: HandwrittenTestcase[] = [
-    {
-        name: 'empty array',
-        signature: 'func(bytes32[])',
-        args: [[]],
-    },
-    {
-        name: 'empty string',
-        signature: 'func(string)',
-        args: [''],
-    },
-    {
-        name: 'empty tuple',
-        signature: 'func()',
-        args: [],
-    },
-    {
-        name: 'simple uint',
-        signature: 'func(uint256)',
-        args: [123],
-    },
-    {
-        name: 'simple bytes32',
-        signature: 'func(bytes32)',
-        args: ['0xaabbccddeeffaabbccddeeffaabbccddeeffaabbccddeeffaabbccddeeffaabb'],
-    },
-    {
-        name: 'simple bytes4',
-        signature: 'func(bytes4)',
-        args: ['0xabcdabcd'],
-    },
-    // i dont wanna make the type stripper handle this
-    // {
-    //     name: 'uint array/bytes confusion',
-    //     signature: 'func(uint256[])',
-    //     args: [[BigNumber.from("0x8000000000000000000000000000000000000000000000000000000000000000")]]
-    // },
-    {
-        name: 'uint array/bytes confusion',
-        signature: 'func(bytes)',
-        args: ['0x80'],
-    },
-    {
-        name: 'fixed sized uint array',
-        signature: 'func(uint256[5])',
-        args: [[123, 456, 789, 135, 790]],
-    },
-    {
-        name: 'dynamic size uint array',
-        signature: 'func(uint256[])',
-        args: [[123, 456, 789, 135, 790]],
-    },
-    {
-        name: 'simple bytes',
-        signature: 'func(bytes)',
-        args: ['0xababcdcddeadbeef'],
-    },
-    {
-        name: 'short string',
-        signature: 'func(string)',
-        args: ['short string'],
-    },
-    {
-        name: 'long string',
-        signature: 'func(string)',
-        args: ['this is a very long string paddingpaddingpaddingpaddingpaddingpaddingpaddingpaddingpaddingpadding'],
-    },
-    {
-        name: 'long string array',
-        signature: 'func(string[])',
-        args: [
-            [
-                'this is a very long string paddingpaddingpaddingpaddingpaddingpaddingpaddingpaddingpaddingpadding',
-                'this is a very long string paddingpaddingpaddingpaddingpaddingpaddingpaddingpaddingpaddingpadding',
-                'this is a very long string paddingpaddingpaddingpaddingpaddingpaddingpaddingpaddingpaddingpadding',
-            ],
-        ],
-    },
-    {
-        name: 'top level tuple',
-        signature: 'func((uint256, uint256, bytes4))',
-        args: [[10, 20, '0xcafebabe']],
-    },
-    {
-        name: 'array of tuples',
-        signature: 'func((uint256, uint256, bytes4)[])',
-        args: [
-            [
-                [10, 20, '0xcafebabe'],
-                [30, 40, '0xf00df00d'],
-            ],
-        ],
-    },
-    {
-        name: 'string in array of tuples',
-        signature: 'func((string, uint256)[])',
-        args: [
-            [
-                ['alice', 0x1234],
-                ['bob', 0x4321],
-            ],
-        ],
-    },
-    {
-        name: 'string in array of single-component tuple',
-        signature: 'func((string)[])',
-        args: [[['alice'], ['bob']]],
-    },
-    {
-        name: 'array of strings',
-        signature: 'func(string[])',
-        args: [['hello', 'world']],
-    },
-    {
-        name: 'array of tuple containing two dynamic elements',
-        signature: 'func((string, uint256[])[])',
-        args: [
-            [
-                ['alice', [1, 2, 3]],
-                ['bob', [4, 5, 6]],
-            ],
-        ],
-    },
-    {
-        name: 'array of tuple of array of tuple',
-        signature: 'func((string, (string, uint256)[])[])',
-        args: [
-            [
-                [
-                    'alice',
-                    [
-                        ['microsoft', [1, 2, 3]],
-                        ['windows', [5, 5, 5]],
-                    ],
-                ],
-                [
-                    'bob',
-                    [
-                        ['apple', [4, 5, 6]],
-                        ['osx', [4, 5, 6]],
-                    ],
-                ],
-            ],
-        ],
-    },
-    {
-        name: 'empty top level array',
-        signature: 'func((string, bytes, uint256)[],(uint256,uint256)[][])',
-        args: [
-            [],
-            [
-                [
-                    [0xaabb, 0xccdd],
-                    [0x1234, 0x5678],
-                ],
-                [
-                    [0xffff, 0xeeee],
-                    [0xdddd, 0xcccc],
-                ],
-            ],
-        ],
-    },
-];
-
-const chainTestcases: ChainTestcase[] = [
-    {
-        id: 'ethereum/0x3db540d6e84bd6fdc53b811fed04b503a451badea2c8c4d2ff6919d7bbde7d0d',
-        signature:
-            'addSequencerL2BatchFromOrigin(uint256 sequenceNumber,bytes data,uint256 afterDelayedMessagesRead,address gasRefunder,uint256 prevMessageCount,uint256 newMessageCount)',
-        calldata:
-            '0x8f111f3c00000000000000000000000000000000000000000000000000000000000016fb00000000000000000000000000000000000000000000000000000000000000c00000000000000000000000000000000000000000000000000000000000017bef0000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000014ce3f000000000000000000000000000000000000000000000000000000000014cf0b00000000000000000000000000000000000000000000000000000000000000b288ee2038d9137f102613836e42b5fac1c733433d66a4bdfef97dd495bff5dbed1293a46ab6da69c5fab714f92d8b4accd750f2b80e199312118ff156fa9a417a840000000063a206f9010000000000000077107c919c3bc4ee6618239559ebc48a5f25334bb563eb0283df2f9ed6f4c7166919346d74616eb81ec151768e6b6ef55509d82a5e30eecc81981dcc36ce555ba7a06151bf1bd330fca88b4b6e5d057f638367e671b2f2c6909dad10cbe90993380000000000000000000000000000',
-    },
-    {
-        id: 'ethereum/0x6150a49f6f56582f17d7ac808b6521f37f6a68a0b8ddabcd2e1cc86f76fb4e2f',
-        signature:
-            'joinPool(bytes32 poolId, address sender, address recipient, tuple(address[] assets, uint256[] maxAmountsIn, bytes userData, bool fromInternalBalance) request)',
-        calldata:
-            '0xb95cac2896646936b91d6b9d7d0c47c496afbf3d6ec7b6f8000200000000000000000019000000000000000000000000111a66bec9536af6da69dd198f5252857dfb2fb1000000000000000000000000111a66bec9536af6da69dd198f5252857dfb2fb10000000000000000000000000000000000000000000000000000000000000080000000000000000000000000000000000000000000000000000000000000008000000000000000000000000000000000000000000000000000000000000000e0000000000000000000000000000000000000000000000000000000000000014000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000002000000000000000000000000a0b86991c6218b36c1d19d4a2e9eb0ce3606eb48000000000000000000000000c02aaa39b223fe8d0a0e5c4f27ead9083c756cc20000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000001d4c0000000000000000000000000000000000000000000000000000056ef6eeb07a500000000000000000000000000000000000000000000000000000000000000c00000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000006000000000000000000000000000000000000000000000000000152c2bd0742d240000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000001d4c0000000000000000000000000000000000000000000000000000056ef6eeb07a5',
-    },
-    {
-        id: 'ethereum/0x973646c73b52f72f7f1b813f4cc9a7c7ee531d16f3d7d1303bf3915065775acc',
-        signature:
-            'fulfillAvailableAdvancedOrders(tuple(tuple(address offerer, address zone, tuple(uint8 itemType, address token, uint256 identifierOrCriteria, uint256 startAmount, uint256 endAmount)[] offer, tuple(uint8 itemType, address token, uint256 identifierOrCriteria, uint256 startAmount, uint256 endAmount, address recipient)[] consideration, uint8 orderType, uint256 startTime, uint256 endTime, bytes32 zoneHash, uint256 salt, bytes32 conduitKey, uint256 totalOriginalConsiderationItems) parameters, uint120 numerator, uint120 denominator, bytes signature, bytes extraData)[] advancedOrders, tuple(uint256 orderIndex, uint8 side, uint256 index, uint256 identifier, bytes32[] criteriaProof)[] criteriaResolvers, tuple(uint256 orderIndex, uint256 itemIndex)[][] offerFulfillments, tuple(uint256 orderIndex, uint256 itemIndex)[][] considerationFulfillments, bytes32 fulfillerConduitKey, address recipient, uint256 maximumFulfilled) payable returns (bool[] availableOrders, tuple(tuple(uint8 itemType, address token, uint256 identifier, uint256 amount, address recipient) item, address offerer, bytes32 conduitKey)[] executions)',
-        calldata:
-            '0x87201b4100000000000000000000000000000000000000000000000000000000000000e00000000000000000000000000000000000000000000000000000000000004de00000000000000000000000000000000000000000000000000000000000004e0000000000000000000000000000000000000000000000000000000000000055a000000000000000000000000000000000000000000000000000000000000000000000000000000000000000002f80f930af7ae24905e1dfc153d11d3ab0b0be5a000000000000000000000000000000000000000000000000000000000000000f000000000000000000000000000000000000000000000000000000000000000f00000000000000000000000000000000000000000000000000000000000001e000000000000000000000000000000000000000000000000000000000000006e00000000000000000000000000000000000000000000000000000000000000be000000000000000000000000000000000000000000000000000000000000010e000000000000000000000000000000000000000000000000000000000000015e00000000000000000000000000000000000000000000000000000000000001ae00000000000000000000000000000000000000000000000000000000000001fe000000000000000000000000000000000000000000000000000000000000024e000000000000000000000000000000000000000000000000000000000000029e00000000000000000000000000000000000000000000000000000000000002ee000000000000000000000000000000000000000000000000000000000000033e000000000000000000000000000000000000000000000000000000000000038e00000000000000000000000000000000000000000000000000000000000003de000000000000000000000000000000000000000000000000000000000000042e000000000000000000000000000000000000000000000000000000000000047e000000000000000000000000000000000000000000000000000000000000000a000000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000046000000000000000000000000000000000000000000000000000000000000004e000000000000000000000000034a1b177dc6595c0645be857f3d454fc8efd6f9d000000000000000000000000004c00500000ad104d7dbd00e3ae0a5c00560c0000000000000000000000000000000000000000000000000000000000000001600000000000000000000000000000000000000000000000000000000000000220000000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000638e3d650000000000000000000000000000000000000000000000000000000063b71b400000000000000000000000000000000000000000000000000000000000000000360c6ebe000000000000000000000000000000000000000060292c17aa045daa0000007b02230091a7ed01230072f7006a004d60a8d4e71d599b8104250f000000000000000000000000000000000000000000000000000000000000000000020000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000200000000000000000000000076d7ee9e913cbbe0e6f8cf5ca192dac841e4f3220000000000000000000000000000000000000000000000000000000000000322000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001c6768fefab000000000000000000000000000000000000000000000000000001c6768fefab00000000000000000000000000034a1b177dc6595c0645be857f3d454fc8efd6f9d0000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000ba72482dd0000000000000000000000000000000000000000000000000000000ba72482dd0000000000000000000000000000000a26b00c1f0df003000390027140000faa719000000000000000000000000000000000000000000000000000000000000004122464f7cca9994d8ff170537aba3fae041be426fe9d80e12199bf460a0d7b43175d141875e8b8f75cfb40b689fb827d365b42ee1efc6744a06b2f2d314fedf7c1c00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000a000000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000046000000000000000000000000000000000000000000000000000000000000004e0000000000000000000000000e59dc1d23bdc21a72a85c71844c3a5917651cffc000000000000000000000000004c00500000ad104d7dbd00e3ae0a5c00560c0000000000000000000000000000000000000000000000000000000000000001600000000000000000000000000000000000000000000000000000000000000220000000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000638e3f1a0000000000000000000000000000000000000000000000000000000063b5cc1a300000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000858c1a76b917d4427c19d17c2868fb420000007b02230091a7ed01230072f7006a004d60a8d4e71d599b8104250f000000000000000000000000000000000000000000000000000000000000000000020000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000200000000000000000000000076d7ee9e913cbbe0e6f8cf5ca192dac841e4f32200000000000000000000000000000000000000000000000000000000000002a7000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001e7b76ec2c4000000000000000000000000000000000000000000000000000001e7b76ec2c4000000000000000000000000000e59dc1d23bdc21a72a85c71844c3a5917651cffc0000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000c816bdd9c0000000000000000000000000000000000000000000000000000000c816bdd9c0000000000000000000000000000000a26b00c1f0df003000390027140000faa7190000000000000000000000000000000000000000000000000000000000000041f247597540bf1b4023073b6ea99dc41b58ad8e7897face53852ba28a07c869c0564586250d7ffffd79ada54f11141e8568f33d47ceb263c9f9eeef20413790271c00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000a000000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000046000000000000000000000000000000000000000000000000000000000000004e00000000000000000000000002878d683f7855bf6305f24d98c7ce70226e3cb05000000000000000000000000004c00500000ad104d7dbd00e3ae0a5c00560c0000000000000000000000000000000000000000000000000000000000000001600000000000000000000000000000000000000000000000000000000000000220000000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000638e3f200000000000000000000000000000000000000000000000000000000063b5cc203000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001955c64b19b125266b401f8f86ded5390000007b02230091a7ed01230072f7006a004d60a8d4e71d599b8104250f000000000000000000000000000000000000000000000000000000000000000000020000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000200000000000000000000000076d7ee9e913cbbe0e6f8cf5ca192dac841e4f32200000000000000000000000000000000000000000000000000000000000002b3000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001c6768fefab000000000000000000000000000000000000000000000000000001c6768fefab0000000000000000000000000002878d683f7855bf6305f24d98c7ce70226e3cb050000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000ba72482dd0000000000000000000000000000000000000000000000000000000ba72482dd0000000000000000000000000000000a26b00c1f0df003000390027140000faa71900000000000000000000000000000000000000000000000000000000000000417f872c13fb2092c151402605dbdfa1cfb7e6556cb4321acabcfcbd32e1c721422f94d3b43c4388618487c77a1576a2cfc0e1f83ec407219e55ae845752b7a67c1c00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000a000000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000046000000000000000000000000000000000000000000000000000000000000004e0000000000000000000000000156f04654e110d95be25e129845fa2b93db5f6aa000000000000000000000000004c00500000ad104d7dbd00e3ae0a5c00560c0000000000000000000000000000000000000000000000000000000000000001600000000000000000000000000000000000000000000000000000000000000220000000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000638e3e3c00000000000000000000000000000000000000000000000000000000647b846c300000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000d1ca9e2337d1600cb70b58700bcc7cfa0000007b02230091a7ed01230072f7006a004d60a8d4e71d599b8104250f000000000000000000000000000000000000000000000000000000000000000000020000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000200000000000000000000000076d7ee9e913cbbe0e6f8cf5ca192dac841e4f3220000000000000000000000000000000000000000000000000000000000000297000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001bb60f053f8000000000000000000000000000000000000000000000000000001bb60f053f8000000000000000000000000000156f04654e110d95be25e129845fa2b93db5f6aa0000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000b5e620f480000000000000000000000000000000000000000000000000000000b5e620f480000000000000000000000000000000a26b00c1f0df003000390027140000faa71900000000000000000000000000000000000000000000000000000000000000410fbdfd69fd19fd0bccce1cdccfa15a41b91671b59aa27bcc7c0756c71ddc46ce1f30600d80763546fecdb85fd37783484d8eeab7d96011af30544dc96c1bdef21c00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000a000000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000046000000000000000000000000000000000000000000000000000000000000004e000000000000000000000000088106159fab8669a30976f50827a0ca064974826000000000000000000000000004c00500000ad104d7dbd00e3ae0a5c00560c0000000000000000000000000000000000000000000000000000000000000001600000000000000000000000000000000000000000000000000000000000000220000000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000638e3e4500000000000000000000000000000000000000000000000000000000647b847530000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000094981f3de47b20d9207df66e99e510000000007b02230091a7ed01230072f7006a004d60a8d4e71d599b8104250f000000000000000000000000000000000000000000000000000000000000000000020000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000200000000000000000000000076d7ee9e913cbbe0e6f8cf5ca192dac841e4f3220000000000000000000000000000000000000000000000000000000000000299000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001bb60f053f8000000000000000000000000000000000000000000000000000001bb60f053f800000000000000000000000000088106159fab8669a30976f50827a0ca0649748260000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000b5e620f480000000000000000000000000000000000000000000000000000000b5e620f480000000000000000000000000000000a26b00c1f0df003000390027140000faa71900000000000000000000000000000000000000000000000000000000000000414345f5fa3d718774c5c29c4a1967dd9185bd4a9de73580740ce50923655f51ba51f467dc60bb665df11cf7e3f416834e61ed152aa58623ad5460dceec1e109e41b00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000a000000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000046000000000000000000000000000000000000000000000000000000000000004e000000000000000000000000039d295313d41c784dafc83e3f70f16baa438cd9e000000000000000000000000004c00500000ad104d7dbd00e3ae0a5c00560c0000000000000000000000000000000000000000000000000000000000000001600000000000000000000000000000000000000000000000000000000000000220000000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000638e3f1d0000000000000000000000000000000000000000000000000000000063b5cc1d300000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000a50d188a78cfdd3b4f4042ccc4ba61490000007b02230091a7ed01230072f7006a004d60a8d4e71d599b8104250f000000000000000000000000000000000000000000000000000000000000000000020000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000200000000000000000000000076d7ee9e913cbbe0e6f8cf5ca192dac841e4f32200000000000000000000000000000000000000000000000000000000000002a2000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001c6768fefab000000000000000000000000000000000000000000000000000001c6768fefab00000000000000000000000000039d295313d41c784dafc83e3f70f16baa438cd9e0000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000ba72482dd0000000000000000000000000000000000000000000000000000000ba72482dd0000000000000000000000000000000a26b00c1f0df003000390027140000faa719000000000000000000000000000000000000000000000000000000000000004186ba31f8c1dfa7001ddbfd20a18311a529d46247dd02e570c01996e9d580bd4e6435e2dbd6d7cc19652e68273388e3cf19e9f146596b649f74f11118f3603d321b00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000a000000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000046000000000000000000000000000000000000000000000000000000000000004e00000000000000000000000003b05e72c00165d255b761a97b9cac24c3faa16f1000000000000000000000000004c00500000ad104d7dbd00e3ae0a5c00560c0000000000000000000000000000000000000000000000000000000000000001600000000000000000000000000000000000000000000000000000000000000220000000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000638e3e4800000000000000000000000000000000000000000000000000000000647b84783000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000002737d7b730b9660fab31e9d978d9f9c20000007b02230091a7ed01230072f7006a004d60a8d4e71d599b8104250f000000000000000000000000000000000000000000000000000000000000000000020000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000200000000000000000000000076d7ee9e913cbbe0e6f8cf5ca192dac841e4f322000000000000000000000000000000000000000000000000000000000000029a000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001bb60f053f8000000000000000000000000000000000000000000000000000001bb60f053f80000000000000000000000000003b05e72c00165d255b761a97b9cac24c3faa16f10000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000b5e620f480000000000000000000000000000000000000000000000000000000b5e620f480000000000000000000000000000000a26b00c1f0df003000390027140000faa7190000000000000000000000000000000000000000000000000000000000000041c68fceed22c4e98e0c5679c769b060b1793a3652dc6671792ca9815f5be940661f6aae26462e8fd667673a6d38d42c4925e2fc00cd6bb68c7bea9742e7aea1f91b00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000a000000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000046000000000000000000000000000000000000000000000000000000000000004e0000000000000000000000000e27e8f15975c14900867075fe8fbd80e2f8e5dca000000000000000000000000004c00500000ad104d7dbd00e3ae0a5c00560c0000000000000000000000000000000000000000000000000000000000000001600000000000000000000000000000000000000000000000000000000000000220000000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000638e3dec0000000000000000000000000000000000000000000000000000000063b5caed000000000000000000000000000000000000000000000000000000000000000072db8c0b00000000000000000000000000000000000000001e719dc003b620240000007b02230091a7ed01230072f7006a004d60a8d4e71d599b8104250f000000000000000000000000000000000000000000000000000000000000000000020000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000200000000000000000000000076d7ee9e913cbbe0e6f8cf5ca192dac841e4f322000000000000000000000000000000000000000000000000000000000000025b000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001cc015fbd84800000000000000000000000000000000000000000000000000001cc015fbd84800000000000000000000000000e27e8f15975c14900867075fe8fbd80e2f8e5dca0000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000bcb85bca78000000000000000000000000000000000000000000000000000000bcb85bca78000000000000000000000000000000a26b00c1f0df003000390027140000faa719000000000000000000000000000000000000000000000000000000000000004104a1512c400ffa1725e28ddd3d078f8308f2f29a870dad6d6145476d38644ff41d245133569fd16bc65979327506a989f11b58363be6c18539a208f83b391c761b00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000a000000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000046000000000000000000000000000000000000000000000000000000000000004e0000000000000000000000000e0718619a0c2fa4b837d7ff54b4f5c63a65333cc000000000000000000000000004c00500000ad104d7dbd00e3ae0a5c00560c0000000000000000000000000000000000000000000000000000000000000001600000000000000000000000000000000000000000000000000000000000000220000000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000638e3dec0000000000000000000000000000000000000000000000000000000063b5caed000000000000000000000000000000000000000000000000000000000000000072db8c0b0000000000000000000000000000000000000000b7d0872bb56121f00000007b02230091a7ed01230072f7006a004d60a8d4e71d599b8104250f000000000000000000000000000000000000000000000000000000000000000000020000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000200000000000000000000000076d7ee9e913cbbe0e6f8cf5ca192dac841e4f3220000000000000000000000000000000000000000000000000000000000000261000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001e7b76ec2c4000000000000000000000000000000000000000000000000000001e7b76ec2c4000000000000000000000000000e0718619a0c2fa4b837d7ff54b4f5c63a65333cc0000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000c816bdd9c0000000000000000000000000000000000000000000000000000000c816bdd9c0000000000000000000000000000000a26b00c1f0df003000390027140000faa71900000000000000000000000000000000000000000000000000000000000000414dd2dcef61c88ccba6f4990169e8fdf2d4b1f674031aa53b5846e9cb4b54aa12605b80607a6ba7df689895d17b18feac48274e10ab2c86b05d81a18170b981681c00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000a000000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000046000000000000000000000000000000000000000000000000000000000000004e00000000000000000000000003e011c971e41705bb7fc39982d9f42a1a57405c8000000000000000000000000004c00500000ad104d7dbd00e3ae0a5c00560c0000000000000000000000000000000000000000000000000000000000000001600000000000000000000000000000000000000000000000000000000000000220000000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000638e3dec0000000000000000000000000000000000000000000000000000000063b5caed000000000000000000000000000000000000000000000000000000000000000072db8c0b00000000000000000000000000000000000000006b06c3bd875211b80000007b02230091a7ed01230072f7006a004d60a8d4e71d599b8104250f000000000000000000000000000000000000000000000000000000000000000000020000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000200000000000000000000000076d7ee9e913cbbe0e6f8cf5ca192dac841e4f3220000000000000000000000000000000000000000000000000000000000000260000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001d716ff5937800000000000000000000000000000000000000000000000000001d716ff59378000000000000000000000000003e011c971e41705bb7fc39982d9f42a1a57405c80000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000c1448303c8000000000000000000000000000000000000000000000000000000c1448303c8000000000000000000000000000000a26b00c1f0df003000390027140000faa71900000000000000000000000000000000000000000000000000000000000000411b002b960e5f70d242dc82f4f432c1645af1f6fd6833ef210e3c2b0186b9a4cc1a57be73a9a30d14ddabc24c840a54efef46ce0050221782380c3d0fc87c3c7b1c00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000a000000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000046000000000000000000000000000000000000000000000000000000000000004e0000000000000000000000000fa7b53949538e4a88dfedf0a32588c49504c0042000000000000000000000000004c00500000ad104d7dbd00e3ae0a5c00560c0000000000000000000000000000000000000000000000000000000000000001600000000000000000000000000000000000000000000000000000000000000220000000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000638e3d990000000000000000000000000000000000000000000000000000000063b5ca9a000000000000000000000000000000000000000000000000000000000000000072db8c0b000000000000000000000000000000000000000050f4018e57ee61380000007b02230091a7ed01230072f7006a004d60a8d4e71d599b8104250f000000000000000000000000000000000000000000000000000000000000000000020000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000200000000000000000000000076d7ee9e913cbbe0e6f8cf5ca192dac841e4f3220000000000000000000000000000000000000000000000000000000000000163000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001dca1cf2711000000000000000000000000000000000000000000000000000001dca1cf2711000000000000000000000000000fa7b53949538e4a88dfedf0a32588c49504c00420000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000c38a96a070000000000000000000000000000000000000000000000000000000c38a96a070000000000000000000000000000000a26b00c1f0df003000390027140000faa7190000000000000000000000000000000000000000000000000000000000000041d03cb98221d861b201d565e0829461f0067926f97f782755280a12c4079fdeb909a536b0b9984d772eaf42d201877f7ad36126ff3947e1e04631fe11dd2511fc1b00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000a000000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000046000000000000000000000000000000000000000000000000000000000000004e0000000000000000000000000c3e295d3893ae9c8f5cfbd0d8a02e647378fab69000000000000000000000000004c00500000ad104d7dbd00e3ae0a5c00560c0000000000000000000000000000000000000000000000000000000000000001600000000000000000000000000000000000000000000000000000000000000220000000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000638e37cd0000000000000000000000000000000000000000000000000000000063b5c4ce000000000000000000000000000000000000000000000000000000000000000072db8c0b0000000000000000000000000000000000000000dc10ee71a39962900000007b02230091a7ed01230072f7006a004d60a8d4e71d599b8104250f000000000000000000000000000000000000000000000000000000000000000000020000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000200000000000000000000000076d7ee9e913cbbe0e6f8cf5ca192dac841e4f3220000000000000000000000000000000000000000000000000000000000000123000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001ed423e909d800000000000000000000000000000000000000000000000000001ed423e909d800000000000000000000000000c3e295d3893ae9c8f5cfbd0d8a02e647378fab690000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000ca5cd17668000000000000000000000000000000000000000000000000000000ca5cd17668000000000000000000000000000000a26b00c1f0df003000390027140000faa7190000000000000000000000000000000000000000000000000000000000000041347d7f21a6bbb2219570b919d025fa11033dbc6048834a37db2da4b31f4d3c0b6e630cc4764b7e7ed780f4b15a17cfa3df8335f9ae1ea574d86ebfeb0fc9ac1e1c00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000a000000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000046000000000000000000000000000000000000000000000000000000000000004e00000000000000000000000006d40c189e25101e320b5fb145dadff14fb81b462000000000000000000000000004c00500000ad104d7dbd00e3ae0a5c00560c0000000000000000000000000000000000000000000000000000000000000001600000000000000000000000000000000000000000000000000000000000000220000000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000638e37cd0000000000000000000000000000000000000000000000000000000063b5c4ce000000000000000000000000000000000000000000000000000000000000000072db8c0b00000000000000000000000000000000000000005ba53679c8425ee00000007b02230091a7ed01230072f7006a004d60a8d4e71d599b8104250f000000000000000000000000000000000000000000000000000000000000000000020000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000200000000000000000000000076d7ee9e913cbbe0e6f8cf5ca192dac841e4f3220000000000000000000000000000000000000000000000000000000000000126000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001ed423e909d800000000000000000000000000000000000000000000000000001ed423e909d8000000000000000000000000006d40c189e25101e320b5fb145dadff14fb81b4620000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000ca5cd17668000000000000000000000000000000000000000000000000000000ca5cd17668000000000000000000000000000000a26b00c1f0df003000390027140000faa71900000000000000000000000000000000000000000000000000000000000000411cacd578eab5f0bff94fdd2a4bd610c4ac538671d05de75cff5e7698db31f45277eeeb6502c8873b022a5c9c13a1aa98a9f9fd6c99a665dd9f1ea551037d8ee91c00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000a000000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000046000000000000000000000000000000000000000000000000000000000000004e00000000000000000000000009d6a0d299230bfb8310025bc16f651dd2811172c000000000000000000000000004c00500000ad104d7dbd00e3ae0a5c00560c0000000000000000000000000000000000000000000000000000000000000001600000000000000000000000000000000000000000000000000000000000000220000000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000638e37cd0000000000000000000000000000000000000000000000000000000063b5c4ce000000000000000000000000000000000000000000000000000000000000000072db8c0b00000000000000000000000000000000000000006721bf07631d9f180000007b02230091a7ed01230072f7006a004d60a8d4e71d599b8104250f000000000000000000000000000000000000000000000000000000000000000000020000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000200000000000000000000000076d7ee9e913cbbe0e6f8cf5ca192dac841e4f3220000000000000000000000000000000000000000000000000000000000000122000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001ed423e909d800000000000000000000000000000000000000000000000000001ed423e909d8000000000000000000000000009d6a0d299230bfb8310025bc16f651dd2811172c0000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000ca5cd17668000000000000000000000000000000000000000000000000000000ca5cd17668000000000000000000000000000000a26b00c1f0df003000390027140000faa7190000000000000000000000000000000000000000000000000000000000000041dd993c8c5793dd39bb6569c507dc936a07f2c6529e2eaed5540215bcd59ac1ee0a95f249af655f052360326f5aa490ced38b08032c35f80168e580155383c11f1b00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000a000000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000046000000000000000000000000000000000000000000000000000000000000004e00000000000000000000000008e26bddc7f96146bf3c719aeca22e2cfb98ec760000000000000000000000000004c00500000ad104d7dbd00e3ae0a5c00560c0000000000000000000000000000000000000000000000000000000000000001600000000000000000000000000000000000000000000000000000000000000220000000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000638e34ce00000000000000000000000000000000000000000000000000000000638f864e0000000000000000000000000000000000000000000000000000000000000000360c6ebe0000000000000000000000000000000000000000c56ad6bd305da9c90000007b02230091a7ed01230072f7006a004d60a8d4e71d599b8104250f000000000000000000000000000000000000000000000000000000000000000000020000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000200000000000000000000000076d7ee9e913cbbe0e6f8cf5ca192dac841e4f3220000000000000000000000000000000000000000000000000000000000000033000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001e19ebd6054c00000000000000000000000000000000000000000000000000001e19ebd6054c000000000000000000000000008e26bddc7f96146bf3c719aeca22e2cfb98ec7600000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000c5967513d4000000000000000000000000000000000000000000000000000000c5967513d4000000000000000000000000000000a26b00c1f0df003000390027140000faa719000000000000000000000000000000000000000000000000000000000000004149981252f77890aca68251003aeec98ff6dbbbdd085533a7352a01bff67d42aa38e6db2033f359c43e2157a40d3340f4e5c2a08c595b6d9e5c7538db73ae3fba1b0000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000f00000000000000000000000000000000000000000000000000000000000001e0000000000000000000000000000000000000000000000000000000000000024000000000000000000000000000000000000000000000000000000000000002a00000000000000000000000000000000000000000000000000000000000000300000000000000000000000000000000000000000000000000000000000000036000000000000000000000000000000000000000000000000000000000000003c00000000000000000000000000000000000000000000000000000000000000420000000000000000000000000000000000000000000000000000000000000048000000000000000000000000000000000000000000000000000000000000004e0000000000000000000000000000000000000000000000000000000000000054000000000000000000000000000000000000000000000000000000000000005a00000000000000000000000000000000000000000000000000000000000000600000000000000000000000000000000000000000000000000000000000000066000000000000000000000000000000000000000000000000000000000000006c000000000000000000000000000000000000000000000000000000000000007200000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000300000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000400000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000500000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000600000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000700000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000800000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000900000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000a00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000b00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000c00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000d00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000e0000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000260000000000000000000000000000000000000000000000000000000000000064000000000000000000000000000000000000000000000000000000000000006a00000000000000000000000000000000000000000000000000000000000000700000000000000000000000000000000000000000000000000000000000000076000000000000000000000000000000000000000000000000000000000000007c00000000000000000000000000000000000000000000000000000000000000820000000000000000000000000000000000000000000000000000000000000088000000000000000000000000000000000000000000000000000000000000008e0000000000000000000000000000000000000000000000000000000000000094000000000000000000000000000000000000000000000000000000000000009a00000000000000000000000000000000000000000000000000000000000000a000000000000000000000000000000000000000000000000000000000000000a600000000000000000000000000000000000000000000000000000000000000ac00000000000000000000000000000000000000000000000000000000000000b20000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000f00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000030000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000400000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000005000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000060000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000700000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000008000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000090000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000a0000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000b0000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000c0000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000d0000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000e00000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000300000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000400000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000500000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000600000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000700000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000800000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000900000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000a00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000b00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000c00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000d00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000e000000000000000000000000000000000000000000000000000000000000000072db8c0b',
-    },
-];
-
-// returns true if the param can't be encoded in the static section of calldata
-const isParamDynamic = (param: ParamType): boolean => {
-    if (param.baseType === 'bytes' || param.baseType === 'string') {
-        return true;
-    }
-    if (param.baseType === 'array') {
-        if (param.arrayLength === -1) {
-            return true;
-        }
-
-        return isParamDynamic(param.arrayChildren);
-    }
-    if (param.baseType === 'tuple') {
-        return param.components.find(isParamDynamic) !== undefined;
-    }
-    return false;
-};
-
-// we strip some information from the expected fragment to reflect the realities of what the guesser can recover
-// 1) if there is a tuple which does not contain any dynamic components, it won't have a length and therefore
-//    will be indistinguishable from not having a tuple at all
-//    ex: func(uint256,(bytes4,bytes32),uint8) === func(uint256,bytes4,bytes32,uint8)
-//    however: func(uint256,(string,bytes32),uint8) !== func(uint256,string,bytes32,uint8)
-// 2) if there is a dynamic array with no children, it will be impossible to recover the types of its children (duh)
-//    ex: func((uint256,string,bytes)[],uint256) === func(string,uint256) if the first parameter has no children
-// 3) if there is a static array, it will look identical to the elemented repeated
-//    ex: func(uint256[3]) === func(uint256,uint256,uint256)
-const stripTypeInformation = (params: ParamType[], allArgs: any[][], isParentArray?: boolean): ParamType[] => {
-    const strippedParams: ParamType[] = [];
-    for (const [idx, param] of params.entries()) {
-        if (param.baseType === 'tuple') {
-            const remappedComponents = stripTypeInformation(
-                param.components,
-                allArgs.map((args) => args[idx]),
-            );
-
-            const shouldBeFlattened = param.components.find(isParamDynamic) === undefined;
-            if (shouldBeFlattened && !isParentArray) {
-                // rule 1
-                strippedParams.push(...remappedComponents);
-            } else {
-                strippedParams.push(ParamType.from(`(${remappedComponents.map((v) => v.format()).join(',')})`));
-            }
-        } else if (param.baseType === 'array') {
-            if (param.arrayLength !== -1) {
-                // rule 3
-                for (let i = 0; i < param.arrayLength; i++) {
-                    strippedParams.push(param.arrayChildren);
-                }
-            } else {
-                const anyArgsHaveElements = allArgs.find((args) => args[idx].length > 0) !== undefined;
-                if (!anyArgsHaveElements) {
-                    // rule 2
-                    strippedParams.push(ParamType.from('()[]'));
-                } else {
-                    const remappedChildren = stripTypeInformation(
-                        [param.arrayChildren],
-                        allArgs.flatMap((args) => args[idx]),
-                        true,
-                    )[0];
-                    strippedParams.push(ParamType.from(`${remappedChildren.format()}[]`));
-                }
-            }
-        } else if (param.baseType === 'bytes' || param.baseType === 'string') {
-            const anyArgsHaveElements = allArgs.find((args) => args[idx].length > 0) !== undefined;
-            if (!anyArgsHaveElements) {
-                // rule 2
-                strippedParams.push(ParamType.from('()[]'));
-            } else {
-                strippedParams.push(param);
-            }
-        } else {
-            strippedParams.push(param);
-        }
-    }
-
-    return strippedParams;
-};
-
-const isEqual = (expectedFragment: FunctionFragment, actualFragment: FunctionFragment) => {
-    const normalize = (type: string) => {
-        if (/^uint[0-9]+$/g.test(type)) return 'uint256';
-        else if (/^int[0-9]+$/g.test(type)) return 'int256';
-        else if (/^bytes[0-9]+$/g.test(type)) return 'uint256';
-        else if (type === 'bool') return 'uint256';
-        else if (type === 'string') return 'bytes';
-        else if (type === 'address') return 'uint256';
-
-        return type;
-    };
-
-    const compareParams = (left: ParamType[], right: ParamType[]) => {
-        if (left.length !== right.length) {
-            throw new Error(
-                `${left.length} != ${right.length} (${left.map((v) => v.format()).join(',')} != ${right
-                    .map((v) => v.format())
-                    .join(',')})`,
-            );
-        }
-
-        for (let i = 0; i < left.length; i++) {
-            const leftChild = left[i];
-            const rightChild = right[i];
-
-            if (leftChild.baseType === 'array') {
-                if (leftChild.baseType !== rightChild.baseType) {
-                    throw new Error(`${leftChild.baseType} != ${rightChild.baseType}`);
-                }
-
-                if (leftChild.arrayLength != rightChild.arrayLength) {
-                    throw new Error(`${leftChild.arrayLength} != ${rightChild.arrayLength}`);
-                }
-
-                compareParams([leftChild.arrayChildren], [rightChild.arrayChildren]);
-            } else if (leftChild.baseType === 'tuple') {
-                if (leftChild.baseType !== rightChild.baseType) {
-                    throw new Error(`${leftChild.baseType} != ${rightChild.baseType}`);
-                }
-
-                compareParams(leftChild.components, rightChild.components);
-            } else {
-                const leftType = normalize(leftChild.type);
-                const rightType = normalize(rightChild.type);
-
-                if (leftType !== rightType) {
-                    throw new Error(`${leftChild.type} !== ${rightChild.type}`);
-                }
-            }
-        }
-    };
-
-    compareParams(expectedFragment.inputs, actualFragment.inputs);
-};
-
 describe('guess', () => {
     handwrittenTestcases.forEach((testcase) => {
         it('should be able to guess ' + testcase.name + ': ' + testcase.signature, async () => {
@@ -358,18 +39,13 @@ describe('guess', () => {
                 throw new Error('failed to parse');
             }
 
-            const strippedFragment = FunctionFragment.from(
-                `${fragment.name}(${stripTypeInformation(fragment.inputs, [testcase.args])
-                    .map((v) => v.format())
-                    .join(',')})`,
-            );
+            const strippedFragment = canonicalizeFragment(fragment, [testcase.args]);
             console.log('expected function', strippedFragment.format());
             console.log('guessed function ', guessed.format());
-            try {
-                isEqual(strippedFragment, guessed);
-            } catch (e) {
-                console.log('failed', e);
-                throw new Error(`failed: ${fragment.format()}, ${guessed.format()}, ${e}`);
+            const difference = findParamsDifference(strippedFragment.inputs, guessed.inputs);
+            if (difference !== null) {
+                console.log('failed', difference);
+                throw new Error(`failed: ${fragment.format()}, ${guessed.format()}, ${difference}`);
             }
         });
     });
@@ -383,21 +59,433 @@ describe('guess', () => {
                 throw new Error('failed to parse');
             }
 
-            const strippedFragment = FunctionFragment.from(
-                `${fragment.name}(${stripTypeInformation(fragment.inputs, [
-                    abi.decodeFunctionData(fragment, testcase.calldata).map((v) => v),
-                ])
-                    .map((v) => v.format())
-                    .join(',')})`,
-            );
+            const strippedFragment = canonicalizeFragment(fragment, [
+                abi.decodeFunctionData(fragment, testcase.calldata).map((v) => v),
+            ]);
             console.log('expected function', strippedFragment.format());
             console.log('guessed function ', guessed.format());
-            try {
-                isEqual(strippedFragment, guessed);
-            } catch (e) {
-                console.log('failed', e);
-                throw new Error(`failed: ${fragment.format()}, ${guessed.format()}, ${e}`);
+            const difference = findParamsDifference(strippedFragment.inputs, guessed.inputs);
+            if (difference !== null) {
+                console.log('failed', difference);
+                throw new Error(`failed: ${fragment.format()}, ${guessed.format()}, ${difference}`);
             }
         });
     });
 });
+
+describe('guess candidates', () => {
+    handwrittenTestcases.forEach((testcase) => {
+        it('should rank the right guess first for ' + testcase.name + ': ' + testcase.signature, async () => {
+            const fragment = FunctionFragment.from(testcase.signature);
+            const abi = new ethers.utils.Interface([fragment]);
+            const data = abi.encodeFunctionData(fragment, testcase.args);
+
+            const candidates = guessFragmentCandidates(data, 5);
+            if (candidates.length === 0) {
+                throw new Error('failed to parse');
+            }
+
+            const strippedFragment = canonicalizeFragment(fragment, [testcase.args]);
+            expect(findParamsDifference(strippedFragment.inputs, candidates[0].fragment.inputs)).toBeNull();
+
+            for (let i = 1; i < candidates.length; i++) {
+                expect(candidates[i].score).toBeLessThanOrEqual(candidates[i - 1].score);
+            }
+        });
+    });
+
+    it('should include the single best guess among the candidates', () => {
+        const fragment = FunctionFragment.from('func(string[])');
+        const data = new ethers.utils.Interface([fragment]).encodeFunctionData(fragment, [['hello', 'world']]);
+
+        const candidates = guessFragmentCandidates(data);
+        expect(candidates.length).toBeGreaterThan(1);
+        expect(candidates.map((v) => v.fragment.format())).toContain(guessFragment(data)!.format());
+        expect(candidates[0].reasons).toContain('re-encodes to exactly the input');
+    });
+});
+
+describe('guess error', () => {
+    // ethers won't let us declare the builtin errors, so encode those by hand
+    const encodeBuiltin = (selector: string, type: string, arg: any) =>
+        selector + defaultAbiCoder.encode([type], [arg]).substring(2);
+    const encodeError = (message: string) => encodeBuiltin('0x08c379a0', 'string', message);
+    const encodePanic = (code: number) => encodeBuiltin('0x4e487b71', 'uint256', code);
+
+    it('should decode Error(string)', () => {
+        const guessed = guessError(encodeError('insufficient balance'));
+
+        expect(guessed?.kind).toBe('error');
+        expect(guessed?.signature).toBe('Error(string)');
+        expect(guessed?.message).toBe('insufficient balance');
+        expect(guessed?.reason).toBe('insufficient balance');
+    });
+
+    it('should decode Panic(uint256)', () => {
+        const guessed = guessError(encodePanic(0x11));
+
+        expect(guessed?.kind).toBe('panic');
+        expect(guessed?.signature).toBe('Panic(uint256)');
+        expect(guessed?.panicCode).toBe(0x11);
+        expect(guessed?.reason).toBe('arithmetic underflow or overflow (0x11)');
+    });
+
+    it('should describe unknown panic codes', () => {
+        const guessed = guessError(encodePanic(0x99));
+
+        expect(guessed?.reason).toBe('unknown panic (0x99)');
+    });
+
+    it('should guess custom errors', () => {
+        const errorInterface = new ethers.utils.Interface([
+            'error InsufficientBalance(address account, uint256 balance, string note)',
+        ]);
+        const data = errorInterface.encodeErrorResult('InsufficientBalance', [
+            '0x111a66bec9536af6da69dd198f5252857dfb2fb1',
+            1234,
+            'not enough',
+        ]);
+        const guessed = guessError(data);
+
+        expect(guessed?.kind).toBe('custom');
+        expect(guessed?.fragment?.format()).toBe(`guessed_${data.substring(2, 10)}(address,uint256,string)`);
+        expect(guessed?.reason).toBe(guessed?.signature);
+    });
+
+    it('should not guess empty revert data', () => {
+        expect(guessError('0x')).toBeNull();
+    });
+});
+
+describe('guess event', () => {
+    const eventInterface = new ethers.utils.Interface([
+        'event Transfer(address indexed from, address indexed to, uint256 value)',
+        'event Named(string indexed name, bytes4 indexed tag, string description)',
+        'event Anonymous(uint256 indexed id, address owner) anonymous',
+    ]);
+    const encodeLog = (name: string, args: any[]) => eventInterface.encodeEventLog(eventInterface.getEvent(name), args);
+
+    it('should guess a transfer event', () => {
+        const log = encodeLog('Transfer', [
+            '0x111a66bec9536af6da69dd198f5252857dfb2fb1',
+            '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+            1234,
+        ]);
+        const guessed = guessEvent(log.topics, log.data);
+
+        expect(guessed?.format('full')).toBe('event guessed_ddf252ad(address indexed, address indexed, uint256)');
+        expect(guessed?.anonymous).toBe(false);
+    });
+
+    it('should guess hashed indexed values as bytes32', () => {
+        const log = encodeLog('Named', ['alice', '0xcafebabe', 'hello world']);
+        const guessed = guessEvent(log.topics, log.data);
+
+        expect(guessed?.inputs.map((v) => `${v.format()}${v.indexed ? ' indexed' : ''}`)).toEqual([
+            'bytes32 indexed',
+            'bytes4 indexed',
+            'string',
+        ]);
+    });
+
+    it('should guess anonymous events', () => {
+        const log = encodeLog('Anonymous', [42, '0x111a66bec9536af6da69dd198f5252857dfb2fb1']);
+        const guessed = guessEvent(log.topics, log.data, true);
+
+        expect(guessed?.format('full')).toBe('event guessed_anonymous(uint256 indexed, address) anonymous');
+    });
+
+    it('should not guess events without a signature topic', () => {
+        expect(guessEvent([], '0x')).toBeNull();
+    });
+});
+
+describe('guess narrow types', () => {
+    const guessTypes = (types: string[], vals: any[], aggressive: boolean) => {
+        const params = guessAbiEncodedData(defaultAbiCoder.encode(types, vals), {
+            inference: aggressive ? 'aggressive' : 'conservative',
+        });
+        return params?.map((v) => v.format());
+    };
+
+    it('should guess negative numbers as signed', () => {
+        expect(guessTypes(['int256', 'int64'], ['-1000000000000000000', '-1000000000000'], false)).toEqual([
+            'int256',
+            'int256',
+        ]);
+        expect(guessTypes(['int8', 'int16', 'int64'], [-128, -129, '-1000000000000'], true)).toEqual([
+            'int8',
+            'int16',
+            'int64',
+        ]);
+    });
+
+    it('should not guess unlimited approvals as signed unless aggressive', () => {
+        const spender = '0x111A66beC9536aF6DA69Dd198F5252857dFB2FB1';
+        const max = ethers.constants.MaxUint256;
+
+        expect(guessTypes(['address', 'uint256'], [spender, max], false)).toEqual(['address', 'uint256']);
+        expect(guessTypes(['uint256'], [max.sub(1000)], false)).toEqual(['uint256']);
+        expect(guessTypes(['address', 'int8'], [spender, -1], true)).toEqual(['address', 'int8']);
+    });
+
+    it('should only guess flags as bools when they are confirmed', () => {
+        expect(guessTypes(['bool', 'bool[]'], [true, [true, false, true]], false)).toEqual(['uint256', 'bool[]']);
+        expect(guessTypes(['uint256[]'], [[1, 1]], false)).toEqual(['uint256[]']);
+        expect(guessTypes(['bool', 'bool'], [true, false], true)).toEqual(['bool', 'bool']);
+    });
+
+    it('should narrow uints only when aggressive', () => {
+        expect(guessTypes(['uint8', 'uint256'], [3, 300], false)).toEqual(['uint256', 'uint256']);
+        expect(guessTypes(['uint8', 'uint256', 'uint64'], [3, 300, '1000000000000'], true)).toEqual([
+            'uint8',
+            'uint16',
+            'uint64',
+        ]);
+    });
+
+    it('should merge array elements into a type that covers all of them', () => {
+        expect(guessTypes(['int256[]'], [[5, '-5000000000000', 1000]], false)).toEqual(['int256[]']);
+        expect(guessTypes(['int256[]'], [[5, -5, 1000]], true)).toEqual(['int32[]']);
+        expect(guessTypes(['uint256[]'], [[0, 1, 70000]], true)).toEqual(['uint32[]']);
+    });
+});
+
+describe('guess with budget', () => {
+    const encoded = defaultAbiCoder.encode(['uint256', 'string[]'], [42, ['hello', 'world']]);
+
+    it('should finish within a generous budget', () => {
+        const guessed = guessAbiEncodedDataWithBudget(encoded, { maxSteps: 10000, deadline: Date.now() + 60000 });
+
+        expect(guessed.params?.map((v) => v.format())).toEqual(['uint256', 'string[]']);
+        expect(guessed.cutOff).toBe(false);
+        expect(guessed.steps).toBeGreaterThan(0);
+    });
+
+    it('should fall back to static words when it runs out of steps', () => {
+        const guessed = guessAbiEncodedDataWithBudget(encoded, { maxSteps: 1 });
+
+        expect(guessed.cutOff).toBe(true);
+        expect(guessed.steps).toBe(1);
+        expect(guessed.params?.length).toBe((encoded.length - 2) / 64);
+        expect(guessed.params?.[0].format()).toBe('uint256');
+    });
+
+    it('should give up once the deadline has passed', () => {
+        const guessed = guessFragmentWithBudget(chainTestcases[0].calldata, { deadline: Date.now() - 1 });
+
+        expect(guessed.cutOff).toBe(true);
+        expect(guessed.steps).toBe(0);
+    });
+
+    it('should give up once aborted', () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        expect(guessAbiEncodedDataWithBudget(encoded, { signal: controller.signal }).cutOff).toBe(true);
+    });
+});
+
+describe('guess with hints', () => {
+    const format = (params: ParamType[] | null) => params?.map((v) => v.format()) ?? null;
+    const address = '0x' + '11'.repeat(20);
+
+    it('should use the hinted types and guess the rest', () => {
+        const encoded = defaultAbiCoder.encode(['address', 'string'], [address, 'hi']);
+
+        expect(format(guessAbiEncodedData(encoded, { hints: { types: ['uint256', '*'] } }))).toEqual([
+            'uint256',
+            'string',
+        ]);
+        expect(format(guessAbiEncodedData(encoded, { hints: { types: [null, 'bytes'] } }))).toEqual([
+            'address',
+            'bytes',
+        ]);
+    });
+
+    it('should use hinted static types that take up more than one word', () => {
+        const encoded = defaultAbiCoder.encode(['(uint256,address)', 'string'], [[1, address], 'hello']);
+
+        expect(format(guessAbiEncodedData(encoded))).toEqual(['uint256', 'address', 'string']);
+        expect(format(guessAbiEncodedData(encoded, { hints: { types: ['(uint256,address)'] } }))).toEqual([
+            '(uint256,address)',
+            'string',
+        ]);
+    });
+
+    it('should not guess anything that contradicts the hints', () => {
+        const encoded = defaultAbiCoder.encode(['bytes', 'uint256'], ['0x1234', 7]);
+
+        // too short for an array of two elements
+        expect(guessAbiEncodedData(encoded, { hints: { types: ['uint16[]'] } })).toBeNull();
+        // not a bool
+        expect(guessAbiEncodedData(encoded, { hints: { types: ['*', 'bool'] } })).toBeNull();
+        // not enough params
+        expect(guessAbiEncodedData(encoded, { hints: { types: ['*', '*', '*', '*', 'uint256'] } })).toBeNull();
+        // not an offset
+        expect(guessAbiEncodedData(encoded, { hints: { types: ['*', 'string'] } })).toBeNull();
+
+        expect(format(guessAbiEncodedData(encoded, { hints: { types: ['*', 'uint8'] } }))).toEqual(['bytes', 'uint8']);
+    });
+
+    it('should guess exactly as many params as hinted', () => {
+        const encoded = defaultAbiCoder.encode(['uint256', 'uint256'], [32, 0]);
+
+        expect(format(guessAbiEncodedData(encoded))).toEqual(['()[]']);
+        expect(format(guessAbiEncodedData(encoded, { hints: { count: 2 } }))).toEqual(['uint256', 'uint256']);
+        expect(guessAbiEncodedData(encoded, { hints: { count: 3 } })).toBeNull();
+    });
+
+    it('should never guess forbidden types', () => {
+        const encoded = defaultAbiCoder.encode(['uint256', 'uint256'], [32, 0]);
+        expect(format(guessAbiEncodedData(encoded, { hints: { forbidden: ['()[]'] } }))).toEqual(['(uint256)']);
+
+        // nested types are forbidden too
+        const array = defaultAbiCoder.encode(['uint256[]'], [[1, 2, 3]]);
+        expect(guessAbiEncodedData(array, { hints: { forbidden: ['uint256'] } })).toBeNull();
+    });
+
+    it('should take fewer steps with hints', () => {
+        const encoded = defaultAbiCoder.encode(['uint256', 'string', 'uint256[]'], [1, 'hello', [1, 2]]);
+
+        const unhinted = guessAbiEncodedDataWithBudget(encoded);
+        const hinted = guessAbiEncodedDataWithBudget(encoded, { hints: { types: ['*', 'string', 'uint256[]'] } });
+        expect(format(hinted.params)).toEqual(format(unhinted.params));
+        expect(hinted.steps).toBeLessThan(unhinted.steps);
+    });
+
+    it('should pass hints along when guessing a fragment', () => {
+        const calldata = '0xdeadbeef' + defaultAbiCoder.encode(['address'], [address]).substring(2);
+
+        expect(guessFragment(calldata, { hints: { types: ['uint160'] } })?.format()).toBe('guessed_deadbeef(uint160)');
+    });
+});
+
+describe('guess non-canonical data', () => {
+    const format = (params: ParamType[] | null) => params?.map((v) => v.format()) ?? null;
+
+    // build data out of words, each given as a number or as hex without a prefix
+    const word = (v: number | string) => (typeof v === 'number' ? v.toString(16) : v).padStart(64, '0');
+    const hello = word(5) + Buffer.from('hello').toString('hex').padEnd(64, '0');
+    const array = word(2) + word(1) + word(2);
+
+    it('should decode dynamic values in any order', () => {
+        const data = '0x' + word(7) + word(0x60 + array.length / 2) + word(0x60) + array + hello;
+
+        expect(format(guessAbiEncodedData(data))).not.toEqual(['uint256', 'string', 'uint256[]']);
+        expect(guessNonCanonicalData(data)).toEqual({
+            params: [ParamType.from('uint256'), ParamType.from('string'), ParamType.from('uint256[]')],
+            features: ['out-of-order-tails'],
+        });
+    });
+
+    it('should decode dynamic values shared between params', () => {
+        const data = '0x' + word(0x40) + word(0x40) + hello;
+
+        const guessed = guessNonCanonicalData(data);
+        expect(format(guessed.params)).toEqual(['string', 'string']);
+        expect(guessed.features).toEqual(['shared-tails']);
+    });
+
+    it('should notice gaps between dynamic values', () => {
+        const data = '0x' + word(0x40) + word(0xa0) + hello + word(0) + hello;
+
+        const guessed = guessNonCanonicalData(data);
+        expect(format(guessed.params)).toEqual(['string', 'string']);
+        expect(guessed.features).toEqual(['gaps']);
+    });
+
+    it('should guess well-formed data just like the strict search', () => {
+        for (const testcase of handwrittenTestcases) {
+            const data = defaultAbiCoder.encode(FunctionFragment.from(testcase.signature).inputs, testcase.args);
+
+            const guessed = guessNonCanonicalData(data);
+            expect(format(guessed.params)).toEqual(format(guessAbiEncodedData(data)));
+            expect(guessed.features).toEqual([]);
+        }
+    });
+});
+
+describe('guess with trailing data', () => {
+    const format = (params: ParamType[] | null) => params?.map((v) => v.format()) ?? null;
+
+    const encoded = defaultAbiCoder.encode(['uint256', 'bytes', 'string'], [5, '0x1234', 'hello']);
+    const sender = '2222222222222222222222222222222222222222';
+
+    it('should guess the params before an appended address', () => {
+        expect(format(guessAbiEncodedData(encoded + sender))).not.toEqual(['uint256', 'bytes', 'string']);
+
+        const guessed = guessAbiEncodedDataWithTrailingData(encoded + sender);
+        expect(format(guessed.params)).toEqual(['uint256', 'bytes', 'string']);
+        expect(guessed.trailing).toMatchObject({ offset: 224, data: '0x' + sender, kind: 'address' });
+    });
+
+    it('should not report trailing data when there is none', () => {
+        const guessed = guessAbiEncodedDataWithTrailingData(encoded);
+        expect(format(guessed.params)).toEqual(['uint256', 'bytes', 'string']);
+        expect(guessed.trailing).toBeNull();
+    });
+
+    it('should ignore trailing data when guessing a fragment', () => {
+        const calldata = '0xdeadbeef' + encoded.substring(2) + '72db8c0b';
+
+        expect(guessFragment(calldata)?.format()).toBe('guessed_deadbeef(uint256,bytes,string)');
+        expect(guessFragmentWithTrailingData(calldata).trailing).toMatchObject({ data: '0x72db8c0b', kind: 'tag' });
+    });
+
+    it('should never drop whole words to satisfy the hints', () => {
+        const calldata =
+            '0xdeadbeef' +
+            defaultAbiCoder
+                .encode(['address', 'uint256', 'uint256'], ['0x111A66beC9536aF6DA69Dd198F5252857dFB2FB1', 1234, 5678])
+                .substring(2);
+
+        expect(guessFragment(calldata, { hints: { count: 1 } })).toBeNull();
+        expect(guessFragment(calldata, { hints: { count: 2 } })).toBeNull();
+        expect(guessFragment(calldata, { hints: { types: ['address', 'uint256', 'bytes'] } })).toBeNull();
+        expect(guessFragmentWithTrailingData(calldata, { hints: { count: 1 } }).trailing).toBeNull();
+    });
+});
+
+describe('guess with outputs', () => {
+    const calldata =
+        '0x70a08231' + defaultAbiCoder.encode(['address'], ['0x111A66beC9536aF6DA69Dd198F5252857dFB2FB1']).substring(2);
+
+    it('should guess outputs from return data', () => {
+        const returnData = defaultAbiCoder.encode(['uint256', 'string'], [1234, 'hello']);
+        const fragment = guessFragmentWithOutputs(calldata, returnData, { stateChanged: false });
+
+        expect(fragment?.format()).toBe('guessed_70a08231(address)');
+        expect(fragment?.outputs?.map((v) => v.format())).toEqual(['uint256', 'string']);
+        expect(fragment?.stateMutability).toBe('view');
+    });
+
+    it('should suggest a state mutability from the metadata', () => {
+        const mutability = (metadata: CallMetadata) =>
+            guessFragmentWithOutputs(calldata, '0x', metadata)?.stateMutability;
+
+        expect(mutability({ value: 0, stateChanged: false })).toBe('view');
+        expect(mutability({ value: 1, stateChanged: true })).toBe('payable');
+        expect(mutability({ stateChanged: true })).toBe('nonpayable');
+
+        // without knowing what the call did, it could have changed anything
+        expect(mutability({})).toBe('nonpayable');
+    });
+
+    it('should only apply the hints to the inputs', () => {
+        const returnData = defaultAbiCoder.encode(['uint256'], [1234]);
+        const fragment = guessFragmentWithOutputs(
+            calldata,
+            returnData,
+            {},
+            { hints: { types: ['address'], count: 1 } },
+        );
+
+        expect(fragment?.format()).toBe('guessed_70a08231(address)');
+        expect(fragment?.outputs?.map((v) => v.format())).toEqual(['uint256']);
+    });
+
+    it('should not guess anything when the return data is not abi encoded', () => {
+        expect(guessFragmentWithOutputs(calldata, '0x1234')).toBeNull();
+    });
+});
@@ -1,136 +1,244 @@
 import { defaultAbiCoder, ParamType } from '@ethersproject/abi';
-import { FunctionFragment } from '@ethersproject/abi/lib';
-import { arrayify, BytesLike, hexlify, toUtf8String } from 'ethers/lib/utils';
+import { ErrorFragment, EventFragment, FunctionFragment } from '@ethersproject/abi/lib';
+import { BigNumber, BigNumberish } from 'ethers';
+import { arrayify, BytesLike, hexlify } from 'ethers/lib/utils';
+import { scoreParams } from './rank';
+import { checkSignature, EncodingFeature } from './check';
+import { findForbidden, GuessHints, hintKind, ResolvedHints, resolveHints, staticWords } from './hints';
+import { createWordView, fitsStaticValue, fitsTypes, tryParseLength, tryParseOffset, WordView } from './structure';
+import { TraceEvent, Tracer } from './trace';
+import { classifyTrailingData, TrailingData } from './trailing';
+import { countTrailingZeros, guessStaticType, prettyTypes, TypeInference } from './types';
+
+export type { TypeInference } from './types';
+export type { GuessHints } from './hints';
+
+export type GuessOptions = {
+    // how far to narrow static types. defaults to conservative
+    inference?: TypeInference;
+
+    // the maximum number of steps the search may take before giving up
+    maxSteps?: number;
+
+    // when to give up on the search, as a timestamp in milliseconds like Date.now()
+    deadline?: number;
+
+    // give up on the search as soon as this is aborted
+    signal?: AbortSignal;
+
+    // called with every step of the search, see createSearchTreeCollector
+    tracer?: Tracer;
+
+    // what we already know about the signature. branches that don't match are never explored
+    hints?: GuessHints;
+
+    // also accept data that wasn't encoded canonically, where dynamic values can be in any order or shared by
+    // more than one param. see guessNonCanonicalData
+    lenient?: boolean;
+};
 
 // check if a given bigint can safely be represented in a number
 const isSafeNumber = (val: bigint): boolean => {
     return val < BigInt(Number.MAX_SAFE_INTEGER);
 };
 
-// try and parse an offset from the data
-// returns the word as a number if it's a potentially valid offset into the data
-const tryParseOffset = (data: Uint8Array, pos: number): number | null => {
-    const word = data.slice(pos, pos + 32);
-    if (word.length === 0) return null;
+// pretty print the potential param
+const formatParam = (p: DecodedParam) => {
+    // if (p === undefined) return 'undefined';
+
+    if (ParamType.isParamType(p)) {
+        return p.format();
+    }
 
-    const bigOffset = BigInt(hexlify(word));
+    return `dynamic(offset=${p.offset},len=${p.length})`;
+};
 
-    // can't be huge
-    if (!isSafeNumber(bigOffset)) return null;
+const formatParams = (params: ParamType[]): string => {
+    return `${params.map((v) => v.format()).join(',')}`;
+};
 
-    const offset = Number(bigOffset);
+const areParamsConsistent = (params: ParamType[]): boolean => {
+    const consistencyChecker = new Set<string>();
+    for (const param of params) {
+        consistencyChecker.add(param.format());
+    }
 
-    // must be located in the correct region of calldata
-    if (offset <= pos || offset >= data.length) return null;
+    return consistencyChecker.size === 1;
+};
 
-    // must be a multiple of 32
-    if (offset % 32 !== 0) return null;
+// represents a placeholder for a potential dynamic variable
+type DynamicPlaceholder = {
+    // the offset of the dynamic variable. always exists
+    offset: number;
 
-    return offset;
+    // the length of the dynamic variable. only exists sometimes, like for variable length arrays
+    length: number | null;
 };
 
-// try and parse a length from the data
-// returns the word as a number if it's a potentially valid length for the data
-const tryParseLength = (data: Uint8Array, offset: number): number | null => {
-    const word = data.slice(offset, offset + 32);
-    if (word.length === 0) return null;
+export type DecodedParam = ParamType | DynamicPlaceholder;
 
-    const bigLength = BigInt(hexlify(word));
+// state shared by every level of a single search
+type SearchContext = {
+    // the maximum number of interpretations to collect for any single tuple
+    limit: number;
 
-    // can't be huge
-    if (!isSafeNumber(bigLength)) return null;
+    // the budget for the search
+    maxSteps: number;
+    deadline: number;
+    signal: AbortSignal | null;
 
-    const length = Number(bigLength);
+    // who to tell about every step of the search
+    tracer: Tracer | null;
 
-    // must be valid
-    if (offset + 32 + length > data.length) return null;
+    // how to turn the structure we found into final types
+    inference: TypeInference;
 
-    return length;
-};
+    // what we know about the params of the top level tuple, if anything
+    hints: ResolvedHints | null;
 
-// split a string into chunks of given length
-const chunkString = (str: string, len: number): string[] => {
-    const result: string[] = [];
+    // if dynamic values can be in any order
+    lenient: boolean;
 
-    const size = Math.ceil(str.length / len);
-    let offset = 0;
+    // how many steps we've taken so far
+    steps: number;
 
-    for (let i = 0; i < size; i++) {
-        result.push(str.substring(offset, offset + len));
-        offset += len;
-    }
+    // set once we've run out of budget, after which every step fails immediately
+    cutOff: boolean;
 
-    return result;
-};
+    // the data being searched
+    view: WordView;
 
-// count the number of leading zeros
-const countLeadingZeros = (arr: Uint8Array) => {
-    let count = 0;
-    for (let i = 0; i < arr.length; i++) {
-        if (arr[i] != 0) break;
+    // every region we've already decoded as a tuple, keyed by the region and its constraints
+    memo: Map<string, ParamType[][]>;
 
-        count++;
-    }
-    return count;
+    // every type we've already parsed, since building a ParamType from a string isn't cheap
+    types: Map<string, ParamType>;
 };
 
-// count the number of trailing zeros
-const countTrailingZeros = (arr: Uint8Array) => {
-    let count = 0;
-    for (let i = arr.length - 1; i >= 0; i--) {
-        if (arr[i] != 0) break;
-
-        count++;
+const createSearchContext = (data: Uint8Array, limit: number, options: GuessOptions): SearchContext => ({
+    limit,
+    maxSteps: options.maxSteps ?? Infinity,
+    deadline: options.deadline ?? Infinity,
+    signal: options.signal ?? null,
+    tracer: options.tracer ?? null,
+    inference: options.inference ?? 'conservative',
+    hints: options.hints ? resolveHints(options.hints) : null,
+    lenient: options.lenient ?? false,
+    steps: 0,
+    cutOff: false,
+    view: createWordView(data),
+    memo: new Map(),
+    types: new Map(),
+});
+
+const parseType = (ctx: SearchContext, type: string): ParamType => {
+    let param = ctx.types.get(type);
+    if (param === undefined) {
+        param = ParamType.from(type);
+        ctx.types.set(type, param);
     }
-    return count;
+    return param;
 };
 
-// pretty print the potential param
-const formatParam = (p: DecodedParam) => {
-    // if (p === undefined) return 'undefined';
+// take a single step of the search. returns false if we've run out of budget
+const takeStep = (ctx: SearchContext): boolean => {
+    if (ctx.cutOff) return false;
 
-    if (ParamType.isParamType(p)) {
-        return p.format();
+    if (ctx.steps >= ctx.maxSteps || Date.now() >= ctx.deadline || ctx.signal?.aborted) {
+        ctx.cutOff = true;
+        return false;
     }
 
-    return `dynamic(offset=${p.offset},len=${p.length})`;
+    ctx.steps++;
+    return true;
 };
 
-const formatParams = (params: ParamType[]): string => {
-    return `${params.map((v) => v.format()).join(',')}`;
+// iterate over the cartesian product of the given alternatives, in order of preference
+// the first combination returned is always made of the first alternative for each entry
+const cartesianProduct = function* <T>(alternatives: T[][]): Generator<T[]> {
+    if (alternatives.find((v) => v.length === 0) !== undefined) return;
+
+    const indices = alternatives.map(() => 0);
+    while (true) {
+        yield indices.map((v, i) => alternatives[i][v]);
+
+        // increment the last index, carrying over as needed
+        let pos = indices.length - 1;
+        while (pos >= 0 && indices[pos] === alternatives[pos].length - 1) {
+            indices[pos] = 0;
+            pos--;
+        }
+        if (pos < 0) return;
+        indices[pos]++;
+    }
 };
 
-const areParamsConsistent = (params: ParamType[]): boolean => {
-    const consistencyChecker = new Set<string>();
-    for (const param of params) {
-        consistencyChecker.add(param.format());
+// turn the structure of the top level tuple into final types, or null if ethers can't actually decode it
+const finalizeParams = (ctx: SearchContext, params: ParamType[]): ParamType[] | null => {
+    // the search only checks the structure of the data, so do one real decode before we trust it
+    let vals: any[];
+    try {
+        vals = Array.from(defaultAbiCoder.decode(params, ctx.view.data));
+    } catch {
+        return null;
     }
 
-    return consistencyChecker.size === 1;
+    // hinted types are already final, the rest are made pretty
+    const hints = ctx.hints?.types ?? [];
+    return prettyTypes(params, vals, ctx.inference).map((v, i) => hints[i] ?? v);
 };
 
-// represents a placeholder for a potential dynamic variable
-type DynamicPlaceholder = {
-    // the offset of the dynamic variable. always exists
-    offset: number;
+// decode an entire region as a tuple. the same region is often examined many times with the same constraints
+// (once for every interpretation of the params before it), so we remember the results
+const decodeRegion = (
+    ctx: SearchContext,
+    depth: number,
+    start: number,
+    end: number,
+    expectedLength: number | null,
+    isDynamicArrayElement: boolean | null,
+): ParamType[][] => {
+    const key = `${start}:${end}:${expectedLength}:${isDynamicArrayElement}`;
+    const cached = ctx.memo.get(key);
+    if (cached !== undefined) {
+        if (ctx.tracer) ctx.tracer({ kind: 'cached', start, end, results: cached.map(formatParams) });
+        return cached;
+    }
 
-    // the length of the dynamic variable. only exists sometimes, like for variable length arrays
-    length: number | null;
+    const results = decodeWellFormedTuple(
+        ctx,
+        depth,
+        start,
+        end,
+        0,
+        [],
+        end - start,
+        expectedLength,
+        isDynamicArrayElement,
+    );
+
+    // a search that was cut off might have missed some results, so it can't be reused
+    if (!ctx.cutOff) {
+        ctx.memo.set(key, results);
+    }
+    return results;
 };
 
-export type DecodedParam = ParamType | DynamicPlaceholder;
-
 // decode a well formed tuple using backtracking
-// for each parameter that we think we've identified, add it to collectedParams and backtrack
+// for each parameter that we think we've identified, push it onto collectedParams, recurse, and pop it off again
 // this allows us to perform dfs through the entire search space without needing to implement the requisite data structure
+// every valid interpretation is collected in order of discovery, until we reach the limit in the context
 const decodeWellFormedTuple = (
-    // current depth, for debugging purposes
+    // shared search state
+    ctx: SearchContext,
+    // current depth, for tracing purposes
     depth: number,
-    // the current data (calldata for top level, dynamic data if decoding a dynamic input)
-    data: Uint8Array,
+    // the region of the data being decoded (calldata for top level, dynamic data if decoding a dynamic input)
+    start: number,
+    end: number,
     // the current parameter being decoded
     paramIdx: number,
-    // the total number of parameters identified
+    // the parameters identified so far. shared with every other level of this tuple
     collectedParams: Array<DecodedParam>,
     // the offset at which the static calldata ends
     endOfStaticCalldata: number,
@@ -138,130 +246,248 @@ const decodeWellFormedTuple = (
     expectedLength: number | null,
     // if this tuple is an element in an array, every element should either be dynamic (have a length) or not (no length)
     isDynamicArrayElement: boolean | null,
-): ParamType[] | null => {
-    const debug = (msg: string, ...args: Array<any>) => {
-        // console.log("  ".repeat(depth) + msg, ...args);
+): ParamType[][] => {
+    // let the tracer know what we're doing. events are only built if someone is listening
+    const trace = (event: () => TraceEvent) => {
+        if (ctx.tracer) ctx.tracer(event());
     };
 
-    // check if the generated params are actually valid by attempting to decode the parameters
-    // note that we need to actually check that the generated results are valid (we do this by calling toString)
+    // check if the generated params are actually valid by checking that they could be decoded
     const testParams = (params: ParamType[] | null): params is ParamType[] => {
         if (!params) return false;
 
-        try {
-            defaultAbiCoder.decode(params, data).map((v) => v.toString());
-            return true;
-        } catch (e) {
-            debug('fail: got illegal parameters', formatParams(params));
+        if (!fitsTypes(ctx.view, params, start, end)) {
+            trace(() => ({ kind: 'reject', reason: `(${formatParams(params)}) does not fit the data` }));
             return false;
         }
+
+        // forbidden types can only be spotted once we know the final types
+        if (ctx.hints !== null && depth === 0 && ctx.hints.forbidden.size > 0) {
+            const finalParams = finalizeParams(ctx, params);
+            const forbidden = finalParams ? findForbidden(finalParams, ctx.hints.forbidden) : null;
+            if (forbidden !== null) {
+                trace(() => ({
+                    kind: 'reject',
+                    reason: `(${formatParams(params)}) contains forbidden type ${forbidden}`,
+                }));
+                return false;
+            }
+        }
+
+        trace(() => ({ kind: 'accept', params: formatParams(params) }));
+        return true;
+    };
+
+    const results: ParamType[][] = [];
+
+    trace(() => ({
+        kind: 'enter',
+        depth,
+        start,
+        end,
+        param: paramIdx,
+        collected: collectedParams.map(formatParam),
+        expectedLength,
+        isDynamicArrayElement,
+    }));
+    const finish = () => {
+        trace(() => ({ kind: 'exit', results: results.map(formatParams) }));
+        return results;
+    };
+
+    if (!takeStep(ctx)) {
+        trace(() => ({ kind: 'reject', reason: 'out of budget' }));
+        return finish();
+    }
+
+    // keep every valid interpretation from a branch. returns true once we've found enough
+    // interpretations from deeper in the same tuple were already tested against the same region, so only the
+    // interpretations we resolve here need testing
+    const collect = (fragments: ParamType[][], tested: boolean): boolean => {
+        for (const fragment of fragments) {
+            if (results.length >= ctx.limit) break;
+
+            if (tested || testParams(fragment)) {
+                results.push(fragment);
+            }
+        }
+
+        return results.length >= ctx.limit;
+    };
+
+    // try the given param for this position and continue with the rest of the tuple
+    // static params can take up more than one word, but only if they were hinted
+    const tryNext = (param: DecodedParam, endOfStatic: number, words: number = 1): boolean => {
+        collectedParams.push(param);
+        const fragments = decodeWellFormedTuple(
+            ctx,
+            depth,
+            start,
+            end,
+            paramIdx + words,
+            collectedParams,
+            endOfStatic,
+            expectedLength,
+            isDynamicArrayElement,
+        );
+        collectedParams.pop();
+
+        return collect(fragments, true);
     };
 
-    // if (paramIdx === 0) {
-    //     debug('backtracking');
-    //     debug('input:');
-    //     chunkString(hexlify(data).substring(2), 64)
-    //         .forEach((v, i) =>
-    //             debug('  ' + i.toString(16) + ' => ' + v),
-    //         );
-    // }
+    // hints only ever describe the params of the top level tuple
+    const hintAt = (idx: number): ParamType | null => (depth === 0 && ctx.hints?.types[idx]) || null;
 
     const paramOffset = paramIdx * 32;
 
+    // only follow the one branch the hint allows. hinted dynamic params are resolved to the hint later on
+    const tryHinted = (hint: ParamType) => {
+        const kind = hintKind(hint);
+        if (kind === 'static') {
+            const words = staticWords(hint);
+            if (paramOffset + words.length * 32 > endOfStaticCalldata) {
+                trace(() => ({ kind: 'reject', reason: `param ${paramIdx} is too short for ${hint.format()}` }));
+                return;
+            }
+
+            const badWord = words.findIndex((v, i) => !fitsStaticValue(ctx.view, v, start + paramOffset + i * 32));
+            if (badWord !== -1) {
+                trace(() => ({
+                    kind: 'reject',
+                    reason: `word ${paramIdx + badWord} is not a ${words[badWord].format()}`,
+                }));
+                return;
+            }
+
+            tryNext(hint, endOfStaticCalldata, words.length);
+            return;
+        }
+
+        const maybeOffset = tryParseOffset(ctx.view, start, end, paramOffset);
+        const maybeLength = maybeOffset !== null ? tryParseLength(ctx.view, start, end, maybeOffset) : null;
+        if (maybeOffset === null || (kind === 'dynamic' && maybeLength === null)) {
+            trace(() => ({ kind: 'reject', reason: `param ${paramIdx} is not an offset to a ${hint.format()}` }));
+            return;
+        }
+
+        trace(() => ({ kind: 'offset', param: paramIdx, offset: maybeOffset, length: maybeLength }));
+        tryNext(
+            { offset: maybeOffset, length: kind === 'dynamic' ? maybeLength : null },
+            Math.min(endOfStaticCalldata, maybeOffset),
+        );
+    };
+
     if (paramOffset < endOfStaticCalldata) {
         // we're still in the static region. determine the next param and recurse
 
+        if (expectedLength !== null && collectedParams.length >= expectedLength) {
+            trace(() => ({
+                kind: 'reject',
+                reason: `expected ${expectedLength} elements in the tuple but there are more words`,
+            }));
+            return finish();
+        }
+
+        const hint = hintAt(collectedParams.length);
+        if (hint !== null) {
+            trace(() => ({ kind: 'consider', param: paramIdx, as: hintKind(hint) }));
+            tryHinted(hint);
+            return finish();
+        }
+
         // first, check if this parameter is dynamic
         // if it's dynamic, it should be an offset into calldata
-        const maybeOffset = tryParseOffset(data, paramOffset);
+        const maybeOffset = tryParseOffset(ctx.view, start, end, paramOffset);
         if (maybeOffset !== null) {
-            const maybeLength = tryParseLength(data, maybeOffset);
+            const maybeLength = tryParseLength(ctx.view, start, end, maybeOffset);
 
-            debug(
-                `parameter ${paramIdx} might be dynamic, got offset ${maybeOffset}, len ${maybeLength}, is dynamic element ${isDynamicArrayElement}`,
-            );
+            trace(() => ({ kind: 'offset', param: paramIdx, offset: maybeOffset, length: maybeLength }));
 
             if (maybeLength !== null && (isDynamicArrayElement === null || isDynamicArrayElement === true)) {
-                const fragment = decodeWellFormedTuple(
-                    depth,
-                    data,
-                    paramIdx + 1,
-                    [...collectedParams, { offset: maybeOffset, length: maybeLength }],
-                    Math.min(endOfStaticCalldata, maybeOffset),
-                    expectedLength,
-                    isDynamicArrayElement,
-                );
-                if (testParams(fragment)) {
-                    return fragment;
+                trace(() => ({ kind: 'consider', param: paramIdx, as: 'dynamic' }));
+                if (tryNext({ offset: maybeOffset, length: maybeLength }, Math.min(endOfStaticCalldata, maybeOffset))) {
+                    return finish();
                 }
             }
 
             if (isDynamicArrayElement === null || isDynamicArrayElement === false) {
-                const fragment = decodeWellFormedTuple(
-                    depth,
-                    data,
-                    paramIdx + 1,
-                    [...collectedParams, { offset: maybeOffset, length: null }],
-                    Math.min(endOfStaticCalldata, maybeOffset),
-                    expectedLength,
-                    isDynamicArrayElement,
-                );
-                if (testParams(fragment)) {
-                    return fragment;
+                trace(() => ({ kind: 'consider', param: paramIdx, as: 'tuple' }));
+                if (tryNext({ offset: maybeOffset, length: null }, Math.min(endOfStaticCalldata, maybeOffset))) {
+                    return finish();
                 }
             }
         }
 
         // only assume it's static if we're allowed to
         if (isDynamicArrayElement !== null) {
-            return null;
+            trace(() => ({
+                kind: 'reject',
+                reason: `param ${paramIdx} must be dynamic in an array of dynamic elements`,
+            }));
+            return finish();
         }
 
-        const fragment = decodeWellFormedTuple(
-            depth,
-            data,
-            paramIdx + 1,
-            [...collectedParams, ParamType.from('bytes32')],
-            endOfStaticCalldata,
-            expectedLength,
-            isDynamicArrayElement,
-        );
-        if (testParams(fragment)) {
-            return fragment;
-        }
+        trace(() => ({ kind: 'consider', param: paramIdx, as: 'static' }));
+        tryNext(parseType(ctx, 'bytes32'), endOfStaticCalldata);
 
-        return null;
+        return finish();
     }
 
     // time to resolve our dynamic variables
-    debug('reached end of static calldata, resolving dynamic variables', collectedParams.map(formatParam));
     if (expectedLength !== null && collectedParams.length !== expectedLength) {
-        debug(`fail: expected ${expectedLength} elements in the tuple but got ${collectedParams.length} instead`);
-        return null;
+        trace(() => ({
+            kind: 'reject',
+            reason: `expected ${expectedLength} elements in the tuple but got ${collectedParams.length} instead`,
+        }));
+        return finish();
+    }
+
+    const unusedHint = ctx.hints?.types.findIndex((v, i) => v !== null && i >= collectedParams.length) ?? -1;
+    if (depth === 0 && unusedHint !== -1) {
+        trace(() => ({ kind: 'reject', reason: `param ${unusedHint} was hinted but there are not enough params` }));
+        return finish();
     }
 
-    const maybeResolveDynamicParam = (idx: number): ParamType | undefined => {
+    // find the offset where the data of the dynamic param at idx ends, or null if it runs to the end of the tuple
+    // canonical encodings put the data in the same order as the params, so it ends where the next one starts.
+    // lenient decoding allows any order, so it ends at the closest offset after it, no matter whose it is
+    const nextDynamicOffset = (idx: number, param: DynamicPlaceholder): number | null => {
+        if (!ctx.lenient) {
+            const next = collectedParams.find((v, i): v is DynamicPlaceholder => i > idx && !ParamType.isParamType(v));
+            return next === undefined ? null : next.offset;
+        }
+
+        let next: number | null = null;
+        for (const v of collectedParams) {
+            if (ParamType.isParamType(v) || v.offset <= param.offset) continue;
+            if (next === null || v.offset < next) next = v.offset;
+        }
+        return next;
+    };
+
+    // returns every plausible type for the param, best first
+    const maybeResolveDynamicParam = (idx: number): ParamType[] => {
         const param = collectedParams[idx];
         if (ParamType.isParamType(param)) {
-            return param;
+            return [param];
         }
 
-        const nextDynamicParam = collectedParams.find(
-            (v, i): v is DynamicPlaceholder => i > idx && !ParamType.isParamType(v),
-        );
-        const isTrailingDynamicParam = nextDynamicParam === undefined;
+        // the structure of hinted params is checked along with everything else once we have all the types
+        const hint = hintAt(idx);
+        if (hint !== null) {
+            return [hint];
+        }
+
+        const nextOffset = nextDynamicOffset(idx, param);
+        const isTrailingDynamicParam = nextOffset === null;
 
         // note that the length of the array != the number of bytes (bytes vs uint[])
         const maybeDynamicElementLen = param.length;
 
-        // extract the data. note that this expects the data to not be overlapping
-        const dynamicDataStart = param.offset + (maybeDynamicElementLen !== null ? 32 : 0);
-        const dynamicDataEnd = isTrailingDynamicParam ? data.length : nextDynamicParam.offset;
-        const dynamicData = data.slice(dynamicDataStart, dynamicDataEnd);
-
-        debug(
-            `param ${idx} is ${dynamicDataStart} -> ${dynamicDataEnd} (${dynamicData.length} bytes, ${maybeDynamicElementLen} elements)`,
-        );
+        // find the data. note that this expects the data to not be overlapping
+        const dynamicDataStart = start + param.offset + (maybeDynamicElementLen !== null ? 32 : 0);
+        const dynamicDataEnd = nextOffset === null ? end : start + nextOffset;
+        const dynamicDataLength = dynamicDataEnd - dynamicDataStart;
 
         if (maybeDynamicElementLen === null) {
             // we don't have a length. what does this mean?
@@ -269,13 +495,9 @@ const decodeWellFormedTuple = (
             // - it can't be a dynamic array, because those also must have a length
             // - therefore, it must either be a simple tuple or a static array (which we treat identically)
 
-            debug('trying to decode simple dynamic element', idx);
-            const params = decodeWellFormedTuple(depth + 1, dynamicData, 0, [], dynamicData.length, null, null);
-            if (params === null) {
-                return undefined;
-            }
+            const allParams = decodeRegion(ctx, depth + 1, dynamicDataStart, dynamicDataEnd, null, null);
 
-            return ParamType.from(`(${formatParams(params)})`);
+            return allParams.map((params) => parseType(ctx, `(${formatParams(params)})`));
         }
 
         if (maybeDynamicElementLen === 0) {
@@ -284,237 +506,582 @@ const decodeWellFormedTuple = (
             // - empty string/bytes
             // - empty dynamic array
             // we can't distinguish between the two, so return the special marker
-            return ParamType.from('()[]');
+            return [parseType(ctx, '()[]')];
         }
 
+        // from here on out it gets a bit ambiguous
+        // we track all possible results and pick the best one at the end
+        const allResults: ParamType[][] = [];
+
+        const trailingZeros =
+            dynamicDataLength % 32 === 0
+                ? countTrailingZeros(ctx.view.data.subarray(dynamicDataStart, dynamicDataEnd))
+                : 0;
         if (
-            maybeDynamicElementLen === dynamicData.length ||
-            (dynamicData.length % 32 === 0 &&
-                maybeDynamicElementLen === dynamicData.length - countTrailingZeros(dynamicData))
+            maybeDynamicElementLen === dynamicDataLength ||
+            (dynamicDataLength % 32 === 0 && maybeDynamicElementLen === dynamicDataLength - trailingZeros) ||
+            (dynamicDataLength % 32 === 0 &&
+                maybeDynamicElementLen < dynamicDataLength &&
+                dynamicDataLength - maybeDynamicElementLen < 32 &&
+                trailingZeros >= dynamicDataLength - maybeDynamicElementLen)
         ) {
-            // if either condition is true, then this must be a bytestring:
+            // if any condition is true, then this must be a bytestring:
             // - has exactly the same number of bytes as it claims in the length
             // - is right-padded with zeroes to the next word
-            return ParamType.from('bytes');
+            // - ends in zeroes itself, but is still padded with zeroes to exactly the next word
+            // unless we were asked for alternatives, there's no point in looking any further
+            if (ctx.limit === 1) {
+                return [parseType(ctx, 'bytes')];
+            }
+
+            allResults.push([parseType(ctx, 'bytes')]);
         }
 
-        // from here on out it gets a bit ambiguous
-        // we track all possible results and pick the best one at the end
-        const allResults: ParamType[][] = [];
+        const arrayResults: ParamType[][] = [];
 
         // let's pretend that what we have is an array of dynamically sized elements
         // where each element has a length prefix. this one is easy to visualize
         // ex: func(string[])
-        debug('decoding assuming length');
-        const decodedAssumingLength = decodeWellFormedTuple(
+        const decodedAssumingLength = decodeRegion(
+            ctx,
             depth + 1,
-            dynamicData,
-            0,
-            [],
-            dynamicData.length,
+            dynamicDataStart,
+            dynamicDataEnd,
             maybeDynamicElementLen,
             true,
         );
-        if (decodedAssumingLength) {
-            allResults.push(decodedAssumingLength);
-        }
+        arrayResults.push(...decodedAssumingLength);
 
         // let's also pretend that what we have is an array of dynamically sized elements
         // but each element itself *does not* have a length prefix
         // this could happen if we're decoding an array of tuples, where one of the elements
         // is dynamically sized
         // ex: func((uint256,string)[])
-        debug('decoding assuming no length');
-        const decodedAssumingNoLength = decodeWellFormedTuple(
+        const decodedAssumingNoLength = decodeRegion(
+            ctx,
             depth + 1,
-            dynamicData,
-            0,
-            [],
-            dynamicData.length,
+            dynamicDataStart,
+            dynamicDataEnd,
             maybeDynamicElementLen,
             false,
         );
-        if (decodedAssumingNoLength) {
-            allResults.push(decodedAssumingNoLength);
-        }
+        arrayResults.push(...decodedAssumingNoLength);
 
         {
             // finally, let's pretend that what we have is an array of statically sized elements
             // in this case, each element must take the same number of words, so we calculate
             // how many words each element needs and manually decode that
 
-            debug('decoding assuming static');
-
-            const numWords = dynamicData.length / 32;
+            const numWords = dynamicDataLength / 32;
             const wordsPerElement = Math.floor(numWords / maybeDynamicElementLen);
 
             if (numWords % maybeDynamicElementLen !== 0 && !isTrailingDynamicParam) {
                 // only the trailing param may be right padded
-                debug('fail: got uneven dynamic data', dynamicData.length / 32, maybeDynamicElementLen);
-                return undefined;
+                trace(() => ({
+                    kind: 'reject',
+                    reason: `param ${idx} has ${numWords} words, which can't be split into ${maybeDynamicElementLen} static elements`,
+                }));
+                return allResults.map((v) => v[0]);
             }
 
             const staticParseParams: ParamType[] = [];
             for (let elemIdx = 0; elemIdx < maybeDynamicElementLen; elemIdx++) {
-                const params = decodeWellFormedTuple(
+                const elemStart = dynamicDataStart + elemIdx * wordsPerElement * 32;
+                const [params] = decodeRegion(
+                    ctx,
                     depth + 1,
-                    dynamicData.slice(elemIdx * wordsPerElement * 32, (elemIdx + 1) * wordsPerElement * 32),
-                    0,
-                    [],
-                    wordsPerElement * 32,
+                    elemStart,
+                    Math.min(elemStart + wordsPerElement * 32, dynamicDataEnd),
                     null,
                     null,
                 );
-                if (params === null || params.length === 0) {
-                    debug('fail: to decode element', elemIdx);
-                    return undefined;
+                if (params === undefined || params.length === 0) {
+                    trace(() => ({
+                        kind: 'reject',
+                        reason: `param ${idx} has a static element ${elemIdx} which can't be decoded`,
+                    }));
+                    return allResults.map((v) => v[0]);
                 }
 
                 if (params.length > 1) {
                     // multiple types, wrap it in a tuple
-                    staticParseParams.push(ParamType.from(`(${formatParams(params)})`));
+                    staticParseParams.push(parseType(ctx, `(${formatParams(params)})`));
                 } else {
                     // one type, all good
                     staticParseParams.push(params[0]);
                 }
             }
 
-            allResults.push(staticParseParams);
+            arrayResults.push(staticParseParams);
         }
 
-        const validResults = allResults
+        const validResults = arrayResults
             // we only want results that are consistent
             .filter((results) => areParamsConsistent(results))
             // only care about the first if all are consistent
             .map((v) => v[0])
             // how do we know which one is best? usually shorter is better (less complex)
-            .sort((a, b) => a.format().length - b.format().length);
+            .sort((a, b) => a.format().length - b.format().length)
+            // different strategies can arrive at the same type
+            .filter((v, i, arr) => arr.findIndex((other) => other.format() === v.format()) === i)
+            .map((v) => parseType(ctx, `${v.format()}[]`));
 
-        if (validResults.length === 0) {
-            debug('fail: got no valid results');
-            return undefined;
+        if (validResults.length === 0 && allResults.length === 0) {
+            return [];
         }
 
-        debug('got valid results', validResults.map((v) => v.format()).join(' / '));
-        return ParamType.from(`${validResults[0].format()}[]`);
+        return [...allResults.map((v) => v[0]), ...validResults];
     };
 
-    const finalParams: ParamType[] = [];
+    const alternatives: ParamType[][] = [];
     for (let i = 0; i < collectedParams.length; i++) {
         const decoded = maybeResolveDynamicParam(i);
-        if (!decoded) {
-            debug('fail: could not resolve param', i);
-            return null;
+        if (decoded.length === 0) {
+            trace(() => ({ kind: 'reject', reason: `could not resolve param ${i}` }));
+            return finish();
+        }
+        if (!ParamType.isParamType(collectedParams[i])) {
+            trace(() => ({ kind: 'resolve', param: i, types: decoded.map((v) => v.format()) }));
         }
 
-        finalParams.push(decoded);
+        alternatives.push(decoded);
+    }
+
+    // only try as many combinations as we're allowed to return, the search space is already big enough
+    let attempts = 0;
+    for (const finalParams of cartesianProduct(alternatives)) {
+        if (attempts++ >= ctx.limit) break;
+
+        if (collect([finalParams], false)) break;
+    }
+
+    return finish();
+};
+
+type SearchResult = {
+    // every interpretation we found, in their final types
+    results: ParamType[][];
+
+    // if the search ran out of budget before it could finish
+    cutOff: boolean;
+
+    // how many steps the search took
+    steps: number;
+};
+
+// search for up to limit interpretations of the data and turn them into their final types
+const guessAllAbiEncodedData = (data: Uint8Array, limit: number, options: GuessOptions): SearchResult => {
+    const ctx = createSearchContext(data, limit, options);
+    const allParams = decodeRegion(ctx, 0, 0, data.length, ctx.hints?.count ?? null, null);
+
+    const results: ParamType[][] = [];
+    for (const params of allParams) {
+        const finalParams = finalizeParams(ctx, params);
+        if (finalParams !== null) {
+            results.push(finalParams);
+        }
     }
 
-    debug('resolved params', finalParams.map(formatParam));
+    return {
+        results,
+        cutOff: ctx.cutOff,
+        steps: ctx.steps,
+    };
+};
+
+export type BudgetedGuess = {
+    // the guessed types. if the search was cut off, this is the best we found so far
+    params: ParamType[] | null;
 
-    if (testParams(finalParams)) {
-        return finalParams;
+    // if the search ran out of steps, hit the deadline or was aborted before it could finish
+    cutOff: boolean;
+
+    // how many steps the search took
+    steps: number;
+};
+
+/*
+like guessAbiEncodedData, but also report whether the search had to give up because it ran out of budget
+(see maxSteps, deadline and signal in the options). if it gave up before finding anything, we fall back to
+treating every word as a static value, which is always a valid, if not very useful, interpretation
+ */
+export const guessAbiEncodedDataWithBudget = (bytes: BytesLike, options: GuessOptions = {}): BudgetedGuess => {
+    const data = arrayify(bytes);
+    const {
+        results: [params],
+        cutOff,
+        steps,
+    } = guessAllAbiEncodedData(data, 1, options);
+
+    // the fallback knows nothing about hints, so it could easily contradict them
+    if (!params && cutOff && !options.hints && data.length % 32 === 0) {
+        const words = Array.from(Array(data.length / 32).keys()).map((i) => hexlify(data.slice(i * 32, (i + 1) * 32)));
+        return {
+            params: prettyTypes(
+                words.map(() => ParamType.from('bytes32')),
+                words,
+                options.inference,
+            ),
+            cutOff,
+            steps,
+        };
     }
-    return null;
+
+    return { params: params ?? null, cutOff, steps };
 };
 
 /*
 assume the calldata is "well-formed". by well-formed, we mean that all the static parameters come first,
 then all the dynamic parameters come after. we assume there is no overlaps in dynamic parameters
-and all trailing zeros are explicitly specified
+and all trailing zeros are explicitly specified. for anything else, see guessNonCanonicalData
  */
-export const guessAbiEncodedData = (bytes: BytesLike): ParamType[] | null => {
-    const params = decodeWellFormedTuple(0, arrayify(bytes), 0, [], bytes.length, null, null);
+export const guessAbiEncodedData = (bytes: BytesLike, options: GuessOptions = {}): ParamType[] | null => {
+    return guessAbiEncodedDataWithBudget(bytes, options).params;
+};
+
+export type NonCanonicalGuess = {
+    // the guessed types
+    params: ParamType[] | null;
+
+    // every way the layout of the data differs from what solidity would have encoded for the guessed types
+    features: EncodingFeature[];
+};
+
+/*
+like guessAbiEncodedData, but the data doesn't need to be well-formed. hand-rolled encoders and gas golfed
+contracts are known to put dynamic values in any order, share one value between several params, or leave gaps
+between them. the guess comes with every such feature we found, which is empty for well-formed data
+ */
+export const guessNonCanonicalData = (bytes: BytesLike, options: GuessOptions = {}): NonCanonicalGuess => {
+    const params = guessAbiEncodedData(bytes, { ...options, lenient: true });
     if (!params) {
-        return null;
+        return { params: null, features: [] };
     }
 
-    // let's clean it up
-    const mergeTypes = (types: Array<ParamType>): ParamType => {
-        if (types.length === 0) {
-            return ParamType.from('()');
-        }
+    return { params, features: checkSignature(bytes, `(${formatParams(params)})`).features };
+};
 
-        if (types.find((v) => v.baseType === 'tuple') !== undefined) {
-            const componentTypes = [];
-            for (let i = 0; i < types[0].components.length; i++) {
-                componentTypes.push(
-                    mergeTypes(Array.from(Array(types.length).keys()).map((v) => types[v].components[i])),
-                );
-            }
-            return ParamType.from(`(${componentTypes.map((v) => v.format()).join(',')})`);
-        }
-        if (types.find((v) => v.baseType === 'array') !== undefined) {
-            return ParamType.from(`${mergeTypes(types.map((v) => v.arrayChildren)).format()}[]`);
-        }
+// bytes after the encoded params are ignored, see guessFragmentWithTrailingData
+export const guessFragment = (calldata: BytesLike, options: GuessOptions = {}): FunctionFragment | null => {
+    return guessFragmentWithBudget(calldata, options).fragment;
+};
 
-        const set = new Set(types.map((v) => v.format()));
-        if (set.size === 1) {
-            return types[0];
-        } else {
-            if (set.has('bytes')) {
-                return ParamType.from('bytes');
-            } else if (set.has('uint256')) {
-                return ParamType.from('uint256');
-            } else {
-                return ParamType.from('bytes32');
-            }
+export type BudgetedFragment = {
+    // the guessed function. if the search was cut off, this is the best we found so far
+    fragment: FunctionFragment | null;
+    cutOff: boolean;
+    steps: number;
+};
+
+// like guessFragment, but also report whether the search had to give up. see guessAbiEncodedDataWithBudget
+export const guessFragmentWithBudget = (calldata: BytesLike, options: GuessOptions = {}): BudgetedFragment => {
+    const { fragment, cutOff, steps } = guessFragmentWithTrailingData(calldata, options);
+    return { fragment, cutOff, steps };
+};
+
+// how many whole words past the unaligned end of the data we're willing to treat as trailing data
+const MAX_TRAILING_WORDS = 2;
+
+export type TrailingGuess = BudgetedGuess & {
+    // the bytes after the encoded params, or null if the params take up all of the data
+    trailing: TrailingData | null;
+};
+
+/*
+like guessAbiEncodedDataWithBudget, but tolerate extra bytes after the encoded params. encoded params always take
+up whole words, so anything past the last whole word can't be part of them, and neither can a few whole words
+before it if the rest doesn't decode without them. the prefix is guessed on its own and the rest is classified,
+see classifyTrailingData. whole words on their own are always assumed to be part of the params, since they're
+indistinguishable from static values, so data that ends on a word boundary is only ever guessed as a whole
+ */
+export const guessAbiEncodedDataWithTrailingData = (bytes: BytesLike, options: GuessOptions = {}): TrailingGuess => {
+    const data = arrayify(bytes);
+    const unaligned = data.length % 32;
+
+    // shortest suffix first. if nothing else works, fall back to guessing the data as a whole. aligned data is
+    // only ever guessed as a whole, dropping words from it would let a guess that doesn't fit pass as trailing data
+    const suffixLengths =
+        unaligned === 0
+            ? [0]
+            : [
+                  ...Array.from(Array(MAX_TRAILING_WORDS + 1).keys())
+                      .map((i) => unaligned + i * 32)
+                      .filter((v) => v <= data.length),
+                  0,
+              ];
+
+    let steps = 0;
+    for (const suffixLength of suffixLengths) {
+        const end = data.length - suffixLength;
+        const maxSteps = options.maxSteps === undefined ? undefined : options.maxSteps - steps;
+        const guess = guessAbiEncodedDataWithBudget(data.slice(0, end), { ...options, maxSteps });
+        steps += guess.steps;
+
+        if (guess.params || guess.cutOff) {
+            const trailing = guess.params && suffixLength > 0 ? classifyTrailingData(data.slice(end), end) : null;
+            return { ...guess, steps, trailing };
         }
-    };
+    }
 
-    const prettyTypes = (params: Array<ParamType>, vals: Array<any>): Array<ParamType> => {
-        return params.map((param, idx) => {
-            const val = vals[idx];
-
-            if (param.type === 'bytes32') {
-                const leadingZeros = countLeadingZeros(arrayify(val));
-                const trailingZeros = countTrailingZeros(arrayify(val));
-
-                if (leadingZeros >= 12 && leadingZeros <= 17) {
-                    // it's probably very hard to mine more leading zeros than that
-                    return ParamType.from('address');
-                } else if (leadingZeros > 16) {
-                    return ParamType.from('uint256');
-                } else if (trailingZeros > 0) {
-                    return ParamType.from(`bytes${32 - trailingZeros}`);
-                } else {
-                    return ParamType.from('bytes32');
-                }
-            } else if (param.type === 'bytes') {
-                try {
-                    toUtf8String(val);
-                    return ParamType.from('string');
-                } catch {
-                    return ParamType.from('bytes');
-                }
-            } else if (param.baseType === 'array') {
-                const childrenTypes = val.map((child: any) => prettyTypes([param.arrayChildren], [child])[0]);
-                return ParamType.from(`${mergeTypes(childrenTypes).format()}[]`);
-            } else if (param.baseType === 'tuple') {
-                return ParamType.from(
-                    `(${prettyTypes(param.components, val)
-                        .map((v) => v.format())
-                        .join(',')})`,
-                );
-            } else {
-                return param;
-            }
-        });
-    };
+    return { params: null, cutOff: false, steps, trailing: null };
+};
 
-    return prettyTypes(params, Array.from(defaultAbiCoder.decode(params, bytes)));
+export type TrailingFragment = BudgetedFragment & {
+    // the bytes after the encoded params, or null if the params take up all of the calldata
+    trailing: TrailingData | null;
 };
 
-export const guessFragment = (calldata: BytesLike): FunctionFragment | null => {
+// like guessFragment, but also return the bytes after the encoded params. see guessAbiEncodedDataWithTrailingData
+export const guessFragmentWithTrailingData = (calldata: BytesLike, options: GuessOptions = {}): TrailingFragment => {
     const bytes = arrayify(calldata);
-    if (bytes.length === 0) return null;
+    if (bytes.length === 0) return { fragment: null, cutOff: false, steps: 0, trailing: null };
     const tupleData = bytes.slice(4);
 
-    const params = guessAbiEncodedData(tupleData);
+    const { params, cutOff, steps, trailing } = guessAbiEncodedDataWithTrailingData(tupleData, options);
+    if (!params) {
+        return { fragment: null, cutOff, steps, trailing: null };
+    }
+
+    const selector = hexlify(bytes.slice(0, 4)).substring(2);
+    const fragment = FunctionFragment.from(`guessed_${selector}(${formatParams(params)})`);
+    return { fragment, cutOff, steps, trailing };
+};
+
+export type CallMetadata = {
+    // how much ether was sent along with the call. defaults to none
+    value?: BigNumberish;
+
+    // if the call changed any state, ex: wrote to storage, emitted a log or moved ether. unknown if not given
+    stateChanged?: boolean;
+};
+
+// suggest a state mutability for a call. only calls that we know left everything as it was can be view, and
+// we can never tell a pure function from a view one
+const suggestStateMutability = (metadata: CallMetadata): string => {
+    if (!BigNumber.from(metadata.value ?? 0).isZero()) return 'payable';
+    if (metadata.stateChanged === false) return 'view';
+    return 'nonpayable';
+};
+
+/*
+like guessFragment, but also guess the outputs from the data the call returned, and suggest a state mutability
+based on what we know about the call (see CallMetadata). returns null if either the calldata or the return data
+can't be guessed. empty return data means the function has no outputs. the hints and the tracer only apply to the
+inputs
+ */
+export const guessFragmentWithOutputs = (
+    calldata: BytesLike,
+    returnData: BytesLike,
+    metadata: CallMetadata = {},
+    options: GuessOptions = {},
+): FunctionFragment | null => {
+    const fragment = guessFragment(calldata, options);
+    if (!fragment) return null;
+
+    // the hints describe the inputs, and the tracer is for a single search
+    const { hints, tracer, ...outputOptions } = options;
+
+    const returnBytes = arrayify(returnData);
+    const outputs = returnBytes.length === 0 ? [] : guessAbiEncodedData(returnBytes, outputOptions);
+    if (!outputs) return null;
+
+    // nonpayable is the default, and isn't a keyword that can be written out
+    const mutability = suggestStateMutability(metadata);
+    const modifier = mutability === 'nonpayable' ? '' : ` ${mutability}`;
+    const returns = outputs.length === 0 ? '' : ` returns (${formatParams(outputs)})`;
+    return FunctionFragment.from(`${fragment.name}(${formatParams(fragment.inputs)})${modifier}${returns}`);
+};
+
+// the selectors for the errors that solidity generates itself
+const ERROR_SELECTOR = '08c379a0';
+const PANIC_SELECTOR = '4e487b71';
+
+// https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require
+const PANIC_CODES: Record<number, string> = {
+    0x00: 'generic compiler panic',
+    0x01: 'assertion failed',
+    0x11: 'arithmetic underflow or overflow',
+    0x12: 'division or modulo by zero',
+    0x21: 'invalid enum value',
+    0x22: 'incorrectly encoded storage byte array',
+    0x31: 'pop on empty array',
+    0x32: 'array index out of bounds',
+    0x41: 'out of memory',
+    0x51: 'call to zero-initialized internal function',
+};
+
+export type GuessedError = {
+    // what kind of error we found. error and panic are generated by solidity, anything else is custom
+    kind: 'error' | 'panic' | 'custom';
+
+    // the signature of the error, ex: Error(string) or guessed_deadbeef(uint256)
+    signature: string;
+
+    // the types of the error parameters
+    params: ParamType[];
+
+    // the guessed error fragment. ethers refuses to build one for Error(string) and Panic(uint256), so only custom errors have one
+    fragment: ErrorFragment | null;
+
+    // a human readable description of the revert, suitable for "reverted with <reason>"
+    reason: string;
+
+    // the message passed to require() or revert(), only for Error(string)
+    message?: string;
+
+    // the panic code, only for Panic(uint256)
+    panicCode?: number;
+};
+
+export const guessError = (revertData: BytesLike, options: GuessOptions = {}): GuessedError | null => {
+    const bytes = arrayify(revertData);
+    if (bytes.length < 4) return null;
+    const tupleData = bytes.slice(4);
+
+    const selector = hexlify(bytes.slice(0, 4)).substring(2);
+    if (selector === ERROR_SELECTOR) {
+        try {
+            const [message] = defaultAbiCoder.decode(['string'], tupleData);
+            return {
+                kind: 'error',
+                signature: 'Error(string)',
+                params: [ParamType.from('string')],
+                fragment: null,
+                reason: message,
+                message,
+            };
+        } catch {
+            // someone declared a custom error with a colliding selector, so just guess it like any other
+        }
+    } else if (selector === PANIC_SELECTOR) {
+        try {
+            const [code] = defaultAbiCoder.decode(['uint256'], tupleData);
+            if (isSafeNumber(code.toBigInt())) {
+                const panicCode = code.toNumber();
+                const description = PANIC_CODES[panicCode] ?? 'unknown panic';
+                return {
+                    kind: 'panic',
+                    signature: 'Panic(uint256)',
+                    params: [ParamType.from('uint256')],
+                    fragment: null,
+                    reason: `${description} (0x${panicCode.toString(16).padStart(2, '0')})`,
+                    panicCode,
+                };
+            }
+        } catch {
+            // same as above
+        }
+    }
+
+    const params = guessAbiEncodedData(tupleData, options);
+    if (!params) {
+        return null;
+    }
+
+    const fragment = ErrorFragment.from(`guessed_${selector}(${formatParams(params)})`);
+    return {
+        kind: 'custom',
+        signature: fragment.format(),
+        params,
+        fragment,
+        reason: fragment.format(),
+    };
+};
+
+/*
+guess an event from the topics and data of a log. unless the event is anonymous, topic0 is the event hash
+and every other topic is an indexed parameter. indexed dynamic values (strings, bytes, arrays, tuples) are
+stored as their hash, which is indistinguishable from any other bytes32, so they will be guessed as such.
+we can't tell how indexed and non-indexed parameters were interleaved, so indexed parameters come first
+ */
+export const guessEvent = (
+    topics: Array<BytesLike>,
+    data: BytesLike,
+    anonymous: boolean = false,
+    options: GuessOptions = {},
+): EventFragment | null => {
+    const topicBytes = topics.map((v) => arrayify(v));
+    if (topicBytes.find((v) => v.length !== 32) !== undefined) return null;
+
+    // the EVM supports at most four topics
+    if (topicBytes.length > 4) return null;
+
+    let name = 'guessed_anonymous';
+    let indexedTopics = topicBytes;
+    if (!anonymous) {
+        if (topicBytes.length === 0) return null;
+
+        name = `guessed_${hexlify(topicBytes[0].slice(0, 4)).substring(2)}`;
+        indexedTopics = topicBytes.slice(1);
+    }
+
+    const params = guessAbiEncodedData(data, options);
     if (!params) {
         return null;
     }
 
+    const indexedParams = indexedTopics.map((v) => `${guessStaticType(v, options.inference).format()} indexed`);
+    return EventFragment.from(
+        `${name}(${[...indexedParams, ...params.map((v) => v.format())].join(',')})${anonymous ? ' anonymous' : ''}`,
+    );
+};
+
+export type RankedGuess = {
+    // the guessed types
+    params: ParamType[];
+
+    // how confident we are in this guess, between 0 and 1
+    score: number;
+
+    // human readable explanations of what contributed to the score
+    reasons: string[];
+};
+
+export type RankedFragment = {
+    fragment: FunctionFragment;
+    score: number;
+    reasons: string[];
+};
+
+/*
+like guessAbiEncodedData, but instead of stopping at the first interpretation that decodes cleanly, keep going
+until we have found up to limit interpretations. every interpretation is scored and the results are returned
+best first. note that the search is exhaustive, so large limits on large inputs can be slow
+ */
+export const guessAbiEncodedDataCandidates = (
+    bytes: BytesLike,
+    limit: number = 10,
+    options: GuessOptions = {},
+): RankedGuess[] => {
+    const data = arrayify(bytes);
+
+    const seen = new Set<string>();
+    const candidates: RankedGuess[] = [];
+    for (const params of guessAllAbiEncodedData(data, limit, options).results) {
+        // different raw interpretations can end up with the same final types
+        const formatted = formatParams(params);
+        if (seen.has(formatted)) continue;
+        seen.add(formatted);
+
+        candidates.push({ params, ...scoreParams(params, data) });
+    }
+
+    // sort is stable, so ties keep the order the search found them in
+    return candidates.sort((a, b) => b.score - a.score);
+};
+
+export const guessFragmentCandidates = (
+    calldata: BytesLike,
+    limit: number = 10,
+    options: GuessOptions = {},
+): RankedFragment[] => {
+    const bytes = arrayify(calldata);
+    if (bytes.length === 0) return [];
     const selector = hexlify(bytes.slice(0, 4)).substring(2);
-    return FunctionFragment.from(`guessed_${selector}(${formatParams(params)})`);
+
+    return guessAbiEncodedDataCandidates(bytes.slice(4), limit, options).map(({ params, score, reasons }) => ({
+        fragment: FunctionFragment.from(`guessed_${selector}(${formatParams(params)})`),
+        score,
+        reasons,
+    }));
 };
@@ -0,0 +1,71 @@
+import { ParamType } from '@ethersproject/abi';
+import { isDynamic } from './structure';
+
+export type GuessHints = {
+    // the known types of the params, in order. null or '*' means any type. params past the end can be anything
+    types?: Array<string | null>;
+
+    // exactly how many params there are
+    count?: number;
+
+    // types which can't show up anywhere in the guess, ex: ['bool', 'bytes']
+    forbidden?: string[];
+};
+
+// what a hint says about the word in the head of the tuple
+// - static: the value itself is in the head
+// - dynamic: the head holds an offset to a length, like for bytes, strings and dynamic arrays
+// - tuple: the head holds an offset to the data with no length, like for dynamic tuples and static arrays
+export type HintKind = 'static' | 'dynamic' | 'tuple';
+
+export type ResolvedHints = {
+    types: Array<ParamType | null>;
+    count: number | null;
+    forbidden: Set<string>;
+};
+
+export const resolveHints = (hints: GuessHints): ResolvedHints => ({
+    types: (hints.types ?? []).map((v) => (v === null || v === '*' ? null : ParamType.from(v))),
+    count: hints.count ?? null,
+    forbidden: new Set((hints.forbidden ?? []).map((v) => ParamType.from(v).format())),
+});
+
+export const hintKind = (hint: ParamType): HintKind => {
+    if (!isDynamic(hint)) return 'static';
+
+    if (hint.baseType === 'bytes' || hint.baseType === 'string') return 'dynamic';
+    if (hint.baseType === 'array' && hint.arrayLength === -1) return 'dynamic';
+    return 'tuple';
+};
+
+// the single word types that make up a static param, in the order they're encoded
+export const staticWords = (param: ParamType): ParamType[] => {
+    if (param.baseType === 'tuple') {
+        return param.components.flatMap(staticWords);
+    } else if (param.baseType === 'array') {
+        const words = staticWords(param.arrayChildren);
+        return Array.from(Array(param.arrayLength).keys()).flatMap(() => words);
+    } else if (param.baseType === '') {
+        // empty tuples take up no space
+        return [];
+    }
+    return [param];
+};
+
+// find the first forbidden type anywhere in the params, including inside arrays and tuples
+export const findForbidden = (params: ReadonlyArray<ParamType>, forbidden: Set<string>): string | null => {
+    if (forbidden.size === 0) return null;
+
+    for (const param of params) {
+        if (forbidden.has(param.format())) return param.format();
+
+        let found: string | null = null;
+        if (param.baseType === 'array') {
+            found = findForbidden([param.arrayChildren], forbidden);
+        } else if (param.baseType === 'tuple') {
+            found = findForbidden(param.components, forbidden);
+        }
+        if (found !== null) return found;
+    }
+    return null;
+};
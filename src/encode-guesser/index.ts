@@ -1 +1,18 @@
 export * from './guess';
+export * from './rank';
+export * from './nested';
+export * from './merge';
+export * from './values';
+export * from './layout';
+export * from './trace';
+export * from './exporters';
+export * from './check';
+export * from './signatures';
+export * from './names';
+export * from './packed';
+export * from './trailing';
+export * from './regroup';
+export * from './equivalence';
+export * from './fuzz';
+export * from './payloads';
+export * from './annotations';
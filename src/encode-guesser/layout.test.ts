@@ -0,0 +1,78 @@
+import { ParamType } from '@ethersproject/abi';
+import { ethers } from 'ethers';
+import { describeLayout } from './layout';
+
+// summarize the annotations so the tests are readable
+const summarize = (types: string[], args: any[]) => {
+    const params = types.map((v) => ParamType.from(v));
+    const layout = describeLayout(params, ethers.utils.defaultAbiCoder.encode(params, args));
+    if (!layout) {
+        throw new Error('failed to describe layout');
+    }
+
+    return layout.map((v) => {
+        const extra = v.target !== undefined ? ` -> ${v.target}` : v.length !== undefined ? ` = ${v.length}` : '';
+        return `${v.offset}: ${v.role} ${v.path ?? ''}${extra}`.trim();
+    });
+};
+
+describe('layout', () => {
+    it('should annotate static values', () => {
+        expect(
+            summarize(
+                ['uint256', '(address,bytes4)'],
+                [1, ['0x111a66bec9536af6da69dd198f5252857dfb2fb1', '0x12345678']],
+            ),
+        ).toEqual(['0: value arg0', '32: value arg1.0', '64: value arg1.1']);
+    });
+
+    it('should annotate offsets, lengths and data', () => {
+        expect(summarize(['uint256', 'string'], [1, 'this string is longer than a single word'])).toEqual([
+            '0: value arg0',
+            '32: offset arg1 -> 64',
+            '64: length arg1 = 40',
+            '96: data arg1',
+            '128: data arg1',
+        ]);
+    });
+
+    it('should annotate arrays of named tuples', () => {
+        expect(
+            summarize(
+                ['tuple(uint256 id, string name)[]'],
+                [
+                    [
+                        [1, 'alice'],
+                        [2, 'bob'],
+                    ],
+                ],
+            ),
+        ).toEqual([
+            '0: offset arg0 -> 32',
+            '32: length arg0 = 2',
+            '64: offset arg0[0] -> 128',
+            '96: offset arg0[1] -> 256',
+            '128: value arg0[0].id',
+            '160: offset arg0[0].name -> 192',
+            '192: length arg0[0].name = 5',
+            '224: data arg0[0].name',
+            '256: value arg0[1].id',
+            '288: offset arg0[1].name -> 320',
+            '320: length arg0[1].name = 3',
+            '352: data arg0[1].name',
+        ]);
+    });
+
+    it('should mark unused words as padding', () => {
+        const params = [ParamType.from('uint256')];
+        const layout = describeLayout(params, ethers.utils.defaultAbiCoder.encode(['uint256', 'uint256'], [1, 2]));
+
+        expect(layout?.map((v) => v.role)).toEqual(['value', 'padding']);
+    });
+
+    it('should reject data which does not fit the types', () => {
+        expect(
+            describeLayout([ParamType.from('string')], ethers.utils.defaultAbiCoder.encode(['uint256'], [1000])),
+        ).toBeNull();
+    });
+});
@@ -0,0 +1,145 @@
+import { ParamType } from '@ethersproject/abi';
+import { arrayify, BytesLike, hexlify } from 'ethers/lib/utils';
+import { staticWords } from './hints';
+import { createWordView, isDynamic, readNumber } from './structure';
+
+export type WordRole =
+    // a static value stored in the head of a tuple
+    | 'value'
+    // a pointer to where a dynamic value is stored
+    | 'offset'
+    // the number of bytes in a bytestring, or the number of elements in an array
+    | 'length'
+    // the contents of a bytestring
+    | 'data'
+    // a word which doesn't belong to any parameter
+    | 'padding';
+
+export type WordAnnotation = {
+    // the byte offset of the word in the data
+    offset: number;
+
+    // the word itself
+    word: string;
+
+    // what the word is used for
+    role: WordRole;
+
+    // the parameter the word belongs to, ex: arg1[2].name. null for padding
+    path: string | null;
+
+    // for offsets, the byte offset in the data that is being pointed to
+    target?: number;
+
+    // for lengths, the length
+    length?: number;
+};
+
+// thrown when the data doesn't actually fit the types
+class LayoutError extends Error {}
+
+/*
+annotate every word of the data with its role, assuming the data was encoded with the given types. this is
+the same walk that a decoder does, except we remember where everything came from. returns null if the data
+doesn't fit the types
+ */
+export const describeLayout = (params: ReadonlyArray<ParamType>, bytes: BytesLike): WordAnnotation[] | null => {
+    const data = arrayify(bytes);
+    const view = createWordView(data);
+    const annotations = new Map<number, WordAnnotation>();
+
+    const wordAt = (pos: number): string => hexlify(data.slice(pos, pos + 32));
+
+    // offsets and lengths can't point past the end of the data
+    const readPosition = (pos: number): number => {
+        if (pos + 32 > data.length) throw new LayoutError(`word at ${pos} is out of bounds`);
+
+        const val = readNumber(view, pos, data.length);
+        if (val === null || val > data.length) throw new LayoutError(`word at ${pos} is too large`);
+        return val;
+    };
+
+    // the first annotation for a word wins, overlapping values aren't well formed anyways
+    const annotate = (pos: number, annotation: Omit<WordAnnotation, 'offset' | 'word'>) => {
+        if (pos + 32 > data.length) throw new LayoutError(`word at ${pos} is out of bounds`);
+        if (annotations.has(pos)) return;
+
+        annotations.set(pos, { offset: pos, word: wordAt(pos), ...annotation });
+    };
+
+    const walkTuple = (types: ReadonlyArray<ParamType>, paths: string[], base: number) => {
+        let pos = base;
+        types.forEach((type, idx) => {
+            if (isDynamic(type)) {
+                const target = base + readPosition(pos);
+                annotate(pos, { role: 'offset', path: paths[idx], target });
+                walkDynamic(type, paths[idx], target);
+                pos += 32;
+            } else {
+                walkStatic(type, paths[idx], pos);
+                pos += staticWords(type).length * 32;
+            }
+        });
+    };
+
+    const walkElements = (type: ParamType, count: number, path: string, base: number) => {
+        walkTuple(
+            Array(count).fill(type.arrayChildren),
+            Array.from(Array(count).keys()).map((i) => `${path}[${i}]`),
+            base,
+        );
+    };
+
+    const walkComponents = (type: ParamType, path: string, base: number) => {
+        walkTuple(
+            type.components,
+            type.components.map((v, i) => `${path}.${v.name || i}`),
+            base,
+        );
+    };
+
+    const walkStatic = (type: ParamType, path: string, pos: number) => {
+        if (type.baseType === 'tuple') {
+            walkComponents(type, path, pos);
+        } else if (type.baseType === 'array') {
+            walkElements(type, type.arrayLength, path, pos);
+        } else {
+            annotate(pos, { role: 'value', path });
+        }
+    };
+
+    const walkDynamic = (type: ParamType, path: string, pos: number) => {
+        if (type.baseType === 'bytes' || type.baseType === 'string') {
+            const length = readPosition(pos);
+            annotate(pos, { role: 'length', path, length });
+            for (let i = 0; i < Math.ceil(length / 32); i++) {
+                annotate(pos + 32 + i * 32, { role: 'data', path });
+            }
+        } else if (type.baseType === 'array' && type.arrayLength === -1) {
+            const length = readPosition(pos);
+            annotate(pos, { role: 'length', path, length });
+            walkElements(type, length, path, pos + 32);
+        } else if (type.baseType === 'array') {
+            walkElements(type, type.arrayLength, path, pos);
+        } else {
+            walkComponents(type, path, pos);
+        }
+    };
+
+    try {
+        walkTuple(
+            params,
+            params.map((_, i) => `arg${i}`),
+            0,
+        );
+    } catch (e) {
+        if (e instanceof LayoutError) return null;
+        throw e;
+    }
+
+    const result: WordAnnotation[] = [];
+    for (let pos = 0; pos < data.length; pos += 32) {
+        result.push(annotations.get(pos) ?? { offset: pos, word: wordAt(pos), role: 'padding', path: null });
+    }
+    return result;
+};
@@ -0,0 +1,69 @@
+import { ethers } from 'ethers';
+import { guessFragmentFromSamples } from './merge';
+
+const abi = new ethers.utils.Interface([
+    'function batch(address recipient, uint256[] amounts, string memo)',
+    'function other(uint256 value)',
+]);
+
+const encodeBatch = (recipient: string, amounts: number[], memo: string) =>
+    abi.encodeFunctionData('batch', [recipient, amounts, memo]);
+
+describe('merge', () => {
+    it('should fill in empty values from populated samples', () => {
+        const merged = guessFragmentFromSamples([
+            encodeBatch('0x111a66bec9536af6da69dd198f5252857dfb2fb1', [], ''),
+            encodeBatch('0x111a66bec9536af6da69dd198f5252857dfb2fb1', [1, 2, 3], 'hello'),
+        ]);
+
+        expect(merged?.fragment.format()).toBe('guessed_574f5b9c(address,uint256[],string)');
+        expect(merged?.merged).toEqual([0, 1]);
+        expect(merged?.outliers).toEqual([]);
+    });
+
+    it('should reconcile addresses which look like numbers', () => {
+        const merged = guessFragmentFromSamples([
+            encodeBatch(ethers.constants.AddressZero, [1], 'hello'),
+            encodeBatch('0x111a66bec9536af6da69dd198f5252857dfb2fb1', [1], 'hello'),
+        ]);
+
+        expect(merged?.fragment.inputs[0].type).toBe('address');
+    });
+
+    it('should only keep narrow types that fit every sample', () => {
+        const samples = [
+            encodeBatch(ethers.constants.AddressZero, [0, 1], 'hello'),
+            encodeBatch('0x111a66bec9536af6da69dd198f5252857dfb2fb1', [1, 0], 'hello'),
+        ];
+
+        expect(guessFragmentFromSamples(samples, { inference: 'aggressive' })?.fragment.format()).toBe(
+            'guessed_574f5b9c(address,bool[],string)',
+        );
+        expect(
+            guessFragmentFromSamples([...samples, encodeBatch(ethers.constants.AddressZero, [300], 'hello')], {
+                inference: 'aggressive',
+            })?.fragment.format(),
+        ).toBe('guessed_574f5b9c(address,uint16[],string)');
+    });
+
+    it('should report samples with a different selector or shape as outliers', () => {
+        const merged = guessFragmentFromSamples([
+            encodeBatch('0x111a66bec9536af6da69dd198f5252857dfb2fb1', [1, 2], 'hello'),
+            abi.encodeFunctionData('other', [1]),
+            encodeBatch('0x111a66bec9536af6da69dd198f5252857dfb2fb1', [3], 'world'),
+            abi.getSighash('batch') + '00'.repeat(32),
+            '0x',
+        ]);
+
+        expect(merged?.merged).toEqual([0, 2]);
+        expect(merged?.outliers.map((v) => [v.index, v.reason])).toEqual([
+            [1, 'has selector 369984d6 instead of 574f5b9c'],
+            [3, 'cannot be unified with (address,uint256[],string)'],
+            [4, 'could not be guessed'],
+        ]);
+    });
+
+    it('should not guess without any usable samples', () => {
+        expect(guessFragmentFromSamples(['0x'])).toBeNull();
+    });
+});
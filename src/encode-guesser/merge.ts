@@ -0,0 +1,110 @@
+import { FunctionFragment, ParamType } from '@ethersproject/abi';
+import { arrayify, BytesLike, hexlify } from 'ethers/lib/utils';
+import { guessFragment, GuessOptions } from './guess';
+import { areTypesMergeable, mergeTypes } from './types';
+
+export type SampleOutlier = {
+    // the index of the sample in the input
+    index: number;
+
+    // the guess for this sample on its own, if there was one
+    fragment: FunctionFragment | null;
+
+    // why the sample couldn't be merged
+    reason: string;
+};
+
+export type MergedGuess = {
+    // the signature that is consistent with every merged sample
+    fragment: FunctionFragment;
+
+    // the indices of the samples that were merged into the fragment
+    merged: number[];
+
+    // the samples that had to be left out
+    outliers: SampleOutlier[];
+};
+
+// describe the structure of a type without the leaf types, so we can tell which samples agree with each other
+const shapeOf = (param: ParamType): string => {
+    if (param.baseType === 'tuple') {
+        return `(${param.components.map(shapeOf).join(',')})`;
+    } else if (param.baseType === 'array') {
+        return `${shapeOf(param.arrayChildren)}[${param.arrayLength === -1 ? '' : param.arrayLength}]`;
+    } else if (param.baseType === 'bytes' || param.baseType === 'string') {
+        return 'dynamic';
+    }
+    return 'static';
+};
+
+/*
+guess a single signature from many calldata samples which share a selector. each sample is guessed on its own
+and then merged with the others, which lets populated samples fill in empty arrays and reconciles conflicting
+static types. samples with a different selector or a shape that doesn't fit the rest are returned as outliers.
+with aggressive inference, a value only stays narrow (ex: bool) if it's narrow in every sample
+ */
+export const guessFragmentFromSamples = (samples: Array<BytesLike>, options: GuessOptions = {}): MergedGuess | null => {
+    const outliers: SampleOutlier[] = [];
+
+    const guesses: Array<[number, FunctionFragment]> = [];
+    samples.forEach((sample, index) => {
+        const fragment = guessFragment(sample, options);
+        if (!fragment) {
+            outliers.push({ index, fragment: null, reason: 'could not be guessed' });
+            return;
+        }
+        guesses.push([index, fragment]);
+    });
+    if (guesses.length === 0) {
+        return null;
+    }
+
+    // the most common selector wins
+    const selectorOf = (index: number) => hexlify(arrayify(samples[index]).slice(0, 4)).substring(2);
+    const selectorCounts = new Map<string, number>();
+    for (const [index] of guesses) {
+        selectorCounts.set(selectorOf(index), (selectorCounts.get(selectorOf(index)) ?? 0) + 1);
+    }
+    const selector = Array.from(selectorCounts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+
+    // start from the most common shape so a single odd sample can't decide the result
+    const shapeKey = (fragment: FunctionFragment) => fragment.inputs.map(shapeOf).join(',');
+    const shapeCounts = new Map<string, number>();
+    for (const [, fragment] of guesses) {
+        shapeCounts.set(shapeKey(fragment), (shapeCounts.get(shapeKey(fragment)) ?? 0) + 1);
+    }
+    const ordered = guesses
+        .filter(([index, fragment]) => {
+            if (selectorOf(index) === selector) return true;
+
+            outliers.push({ index, fragment, reason: `has selector ${selectorOf(index)} instead of ${selector}` });
+            return false;
+        })
+        .sort((a, b) => shapeCounts.get(shapeKey(b[1]))! - shapeCounts.get(shapeKey(a[1]))!);
+
+    const merged: number[] = [];
+    let mergedParams: ParamType[] = ordered[0][1].inputs;
+    for (const [index, fragment] of ordered) {
+        const params = fragment.inputs;
+        if (
+            params.length !== mergedParams.length ||
+            params.find((v, i) => !areTypesMergeable(v, mergedParams[i])) !== undefined
+        ) {
+            outliers.push({
+                index,
+                fragment,
+                reason: `cannot be unified with (${mergedParams.map((v) => v.format()).join(',')})`,
+            });
+            continue;
+        }
+
+        mergedParams = mergedParams.map((v, i) => mergeTypes([v, params[i]]));
+        merged.push(index);
+    }
+
+    return {
+        fragment: FunctionFragment.from(`guessed_${selector}(${mergedParams.map((v) => v.format()).join(',')})`),
+        merged: merged.sort((a, b) => a - b),
+        outliers: outliers.sort((a, b) => a.index - b.index),
+    };
+};
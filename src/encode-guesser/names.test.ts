@@ -0,0 +1,53 @@
+import { ParamType } from '@ethersproject/abi';
+import { ethers } from 'ethers';
+import { guessFragment } from './guess';
+import { COMMON_NAME_SUFFIXES, COMMON_NAME_WORDS, findFunctionNames } from './names';
+
+const abi = new ethers.utils.Interface([
+    'function transferFrom(address from, address to, uint256 amount)',
+    'function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+]);
+
+describe('names', () => {
+    it('should find the name of a guessed function', () => {
+        const calldata = abi.encodeFunctionData('transferFrom', [
+            '0x111a66bec9536af6da69dd198f5252857dfb2fb1',
+            '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+            1234,
+        ]);
+        const fragment = guessFragment(calldata)!;
+
+        const result = findFunctionNames(calldata, fragment.inputs, COMMON_NAME_WORDS);
+        expect(result.fragments.map((v) => v.format())).toEqual(['transferFrom(address,address,uint256)']);
+        expect(result.cutOff).toBe(false);
+        expect(result.steps).toBe(COMMON_NAME_WORDS.length + COMMON_NAME_WORDS.length ** 2);
+    });
+
+    it('should combine many words and suffixes', () => {
+        const params = abi.getFunction('swapExactTokensForETH').inputs;
+        const selector = abi.getSighash('swapExactTokensForETH');
+
+        const result = findFunctionNames(selector, params, ['swap', 'exact', 'tokens', 'for'], {
+            maxWords: 4,
+            suffixes: COMMON_NAME_SUFFIXES,
+        });
+        expect(result.fragments.map((v) => v.name)).toEqual(['swapExactTokensForETH']);
+    });
+
+    it('should skip words that can not be part of a name', () => {
+        const result = findFunctionNames('0x00000000', [], [' get ', 'get', '', '1st', 'not-a-word'], { maxWords: 1 });
+        expect(result.steps).toBe(1);
+    });
+
+    it('should give up once it runs out of budget', () => {
+        const params = [ParamType.from('uint256')];
+
+        const limited = findFunctionNames('0x00000000', params, COMMON_NAME_WORDS, { maxSteps: 10 });
+        expect(limited.cutOff).toBe(true);
+        expect(limited.steps).toBe(10);
+
+        const late = findFunctionNames('0x00000000', params, COMMON_NAME_WORDS, { deadline: Date.now() - 1 });
+        expect(late.cutOff).toBe(true);
+        expect(late.steps).toBe(0);
+    });
+});
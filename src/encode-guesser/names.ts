@@ -0,0 +1,185 @@
+import { FunctionFragment, ParamType } from '@ethersproject/abi';
+import { arrayify, BytesLike, hexlify, keccak256, toUtf8Bytes } from 'ethers/lib/utils';
+
+// a starting point for a dictionary. verbs come first since most functions start with one
+export const COMMON_NAME_WORDS: ReadonlyArray<string> = [
+    // verbs
+    'get',
+    'set',
+    'is',
+    'has',
+    'add',
+    'remove',
+    'update',
+    'create',
+    'execute',
+    'transfer',
+    'approve',
+    'mint',
+    'burn',
+    'swap',
+    'deposit',
+    'withdraw',
+    'claim',
+    'stake',
+    'unstake',
+    'redeem',
+    'borrow',
+    'repay',
+    'liquidate',
+    'buy',
+    'sell',
+    'register',
+    'cancel',
+    'fill',
+    'match',
+    'batch',
+    'multicall',
+    'call',
+    'send',
+    'receive',
+    'lock',
+    'unlock',
+    'pause',
+    'unpause',
+    'initialize',
+    'upgrade',
+    'vote',
+    'propose',
+    'submit',
+    'settle',
+    'harvest',
+    // nouns
+    'token',
+    'tokens',
+    'owner',
+    'balance',
+    'amount',
+    'from',
+    'to',
+    'for',
+    'with',
+    'all',
+    'order',
+    'orders',
+    'pool',
+    'reward',
+    'rewards',
+    'fee',
+    'fees',
+    'price',
+    'role',
+    'admin',
+    'config',
+    'data',
+    'exact',
+    'input',
+    'output',
+    'eth',
+    'nft',
+];
+
+// common endings for functions with several overloads
+export const COMMON_NAME_SUFFIXES: ReadonlyArray<string> = ['', 'WithPermit', 'ETH', 'Tokens', 'Batch', 'For', 'To'];
+
+export type NameSearchOptions = {
+    // the most dictionary words to combine into a single name. defaults to 2
+    maxWords?: number;
+
+    // appended to every name as is. defaults to no suffix
+    suffixes?: ReadonlyArray<string>;
+
+    // the maximum number of names to hash before giving up. defaults to a million
+    maxSteps?: number;
+
+    // when to give up, as a timestamp in milliseconds like Date.now()
+    deadline?: number;
+
+    // give up as soon as this is aborted
+    signal?: AbortSignal;
+};
+
+export type NameSearchResult = {
+    // every function built from the dictionary that hashes to the selector, in the order they were found
+    fragments: FunctionFragment[];
+
+    // if we gave up before trying every name
+    cutOff: boolean;
+
+    // how many names were hashed
+    steps: number;
+};
+
+// checking the clock is slow compared to hashing, so only check it every so often
+const CLOCK_INTERVAL = 1024;
+
+// join words into a camelCase name, ex: ['transfer', 'from'] => transferFrom
+const camelCase = (words: ReadonlyArray<string>): string =>
+    words.map((v, i) => (i === 0 ? v[0].toLowerCase() : v[0].toUpperCase()) + v.substring(1)).join('');
+
+// every combination of one word, then two words, and so on up to maxWords
+const generateNames = function* (words: ReadonlyArray<string>, maxWords: number): Generator<string> {
+    if (words.length === 0) return;
+
+    for (let count = 1; count <= maxWords; count++) {
+        const indices = Array(count).fill(0);
+        while (true) {
+            yield camelCase(indices.map((v) => words[v]));
+
+            // increment the last index, carrying over as needed
+            let pos = count - 1;
+            while (pos >= 0 && indices[pos] === words.length - 1) {
+                indices[pos] = 0;
+                pos--;
+            }
+            if (pos < 0) break;
+            indices[pos]++;
+        }
+    }
+};
+
+/*
+search for function names that hash to the selector with the given params, by combining words from the dictionary
+in camelCase and appending each suffix. the search is exhaustive, so it's bounded by a budget (see maxSteps,
+deadline and signal) and every hit is returned. note that short selectors collide easily, so more than one hit
+is common with large dictionaries, and the first hit isn't necessarily the real name
+ */
+export const findFunctionNames = (
+    selector: BytesLike,
+    params: ReadonlyArray<ParamType>,
+    dictionary: ReadonlyArray<string>,
+    options: NameSearchOptions = {},
+): NameSearchResult => {
+    const target = hexlify(arrayify(selector).slice(0, 4));
+    const maxSteps = options.maxSteps ?? 1_000_000;
+    const deadline = options.deadline ?? Infinity;
+    const suffixes = options.suffixes ?? [''];
+
+    // dictionaries are often messy, so clean them up first
+    const words = dictionary
+        .map((v) => v.trim())
+        .filter((v, i, arr) => /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(v) && arr.indexOf(v) === i);
+
+    const types = `(${params.map((v) => v.format()).join(',')})`;
+    const fragments: FunctionFragment[] = [];
+    let steps = 0;
+
+    for (const name of generateNames(words, options.maxWords ?? 2)) {
+        for (const suffix of suffixes) {
+            if (steps >= maxSteps || options.signal?.aborted) {
+                return { fragments, cutOff: true, steps };
+            }
+            if (steps % CLOCK_INTERVAL === 0 && Date.now() >= deadline) {
+                return { fragments, cutOff: true, steps };
+            }
+            steps++;
+
+            const signature = `${name}${suffix}${types}`;
+            if (keccak256(toUtf8Bytes(signature)).substring(0, 10) === target) {
+                fragments.push(FunctionFragment.from(signature));
+            }
+        }
+    }
+
+    return { fragments, cutOff: false, steps };
+};
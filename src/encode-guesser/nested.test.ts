@@ -0,0 +1,81 @@
+import { ethers } from 'ethers';
+import { guessFragment } from './guess';
+import { CallTree, guessCallTree } from './nested';
+
+const abi = new ethers.utils.Interface([
+    'function multicall(bytes[] data)',
+    'function transfer(address to, uint256 amount)',
+    'function execTransaction(address to, uint256 value, bytes data, uint8 operation)',
+    'function setName(string name)',
+]);
+
+const transfer = abi.encodeFunctionData('transfer', ['0x111a66bec9536af6da69dd198f5252857dfb2fb1', 1234]);
+const setName = abi.encodeFunctionData('setName', ['alice']);
+
+// flatten the tree into path => signature for easy comparison
+const flatten = (tree: CallTree): string[] => [
+    `${tree.path} => ${tree.fragment.format()}`,
+    ...tree.children.flatMap(flatten),
+];
+
+describe('nested', () => {
+    it('should guess every call in a multicall', () => {
+        const tree = guessCallTree(abi.encodeFunctionData('multicall', [[transfer, setName]]));
+        if (!tree) {
+            throw new Error('failed to parse');
+        }
+
+        expect(flatten(tree)).toEqual([
+            ' => guessed_ac9650d8(bytes[])',
+            'arg0[0] => guessed_a9059cbb(address,uint256)',
+            'arg0[1] => guessed_c47f0027(string)',
+        ]);
+    });
+
+    it('should recurse through several levels of nesting', () => {
+        const multicall = abi.encodeFunctionData('multicall', [[transfer]]);
+        const tree = guessCallTree(
+            abi.encodeFunctionData('execTransaction', ['0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48', 0, multicall, 1]),
+        );
+        if (!tree) {
+            throw new Error('failed to parse');
+        }
+
+        expect(flatten(tree)).toEqual([
+            ' => guessed_29238ee4(address,uint256,bytes,uint256)',
+            'arg2 => guessed_ac9650d8(bytes[])',
+            'arg0[0] => guessed_a9059cbb(address,uint256)',
+        ]);
+    });
+
+    it('should stop at the maximum depth', () => {
+        const multicall = abi.encodeFunctionData('multicall', [[transfer]]);
+        const tree = guessCallTree(
+            abi.encodeFunctionData('execTransaction', ['0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48', 0, multicall, 1]),
+            1,
+        );
+
+        expect(tree?.children.length).toBe(1);
+        expect(tree?.children[0].children.length).toBe(0);
+    });
+
+    it('should not treat a lone selector as a call', () => {
+        const tree = guessCallTree(abi.encodeFunctionData('multicall', [[transfer, '0x12345678']]));
+
+        expect(tree?.children.map((v) => v.path)).toEqual(['arg0[0]']);
+    });
+
+    it('should use the options for every nested guess', () => {
+        const multicall = abi.encodeFunctionData('multicall', [[transfer]]);
+
+        const aggressive = guessCallTree(multicall, 4, { inference: 'aggressive' });
+        expect(aggressive?.children[0].fragment.format()).toBe('guessed_a9059cbb(address,uint16)');
+
+        // the nested guesses are traced along with the top level one
+        let topLevelEvents = 0;
+        guessFragment(multicall, { tracer: () => topLevelEvents++ });
+        let treeEvents = 0;
+        guessCallTree(multicall, 4, { tracer: () => treeEvents++ });
+        expect(treeEvents).toBeGreaterThan(topLevelEvents);
+    });
+});
@@ -0,0 +1,71 @@
+import { defaultAbiCoder, FunctionFragment } from '@ethersproject/abi';
+import { arrayify, BytesLike, toUtf8Bytes } from 'ethers/lib/utils';
+import { guessFragment, GuessOptions } from './guess';
+import { walkValues } from './values';
+
+export type CallTree = {
+    // where this call was found in its parent, ex: arg0[2]. empty for the top level call
+    path: string;
+
+    // the guessed function
+    fragment: FunctionFragment;
+
+    // calls which were found inside the bytes parameters of this call
+    children: CallTree[];
+};
+
+// check if some bytes could plausibly be calldata: a selector followed by at least one whole word. a lone selector
+// is just as likely to be any other bytes4, so it's left as a leaf
+const looksLikeCalldata = (bytes: Uint8Array): boolean => {
+    return bytes.length >= 36 && (bytes.length - 4) % 32 === 0;
+};
+
+const buildCallTree = (
+    path: string,
+    calldata: Uint8Array,
+    depth: number,
+    maxDepth: number,
+    options: GuessOptions,
+): CallTree | null => {
+    const fragment = guessFragment(calldata, options);
+    if (!fragment) {
+        return null;
+    }
+
+    const children: CallTree[] = [];
+    if (depth < maxDepth) {
+        const vals = defaultAbiCoder.decode(fragment.inputs, calldata.slice(4));
+
+        for (const [param, value, childPath] of walkValues(fragment.inputs, vals)) {
+            if (param.baseType !== 'bytes' && param.baseType !== 'string') continue;
+
+            // calldata can happen to be valid utf-8, so strings are fair game too
+            const bytes = param.baseType === 'bytes' ? arrayify(value) : toUtf8Bytes(value);
+            if (!looksLikeCalldata(bytes)) continue;
+
+            const child = buildCallTree(childPath, bytes, depth + 1, maxDepth, options);
+            if (child) {
+                children.push(child);
+            }
+        }
+    }
+
+    return { path, fragment, children };
+};
+
+/*
+guess the calldata like guessFragment, then look through every bytes parameter for values that look like
+calldata themselves (multicalls, wallets, routers, etc) and guess those too, up to maxDepth levels deep.
+note that any bytes value with the right shape will be treated as calldata, so the leaves may be false positives.
+the options apply to every guess, so each nested call gets the same budget as the top level one
+ */
+export const guessCallTree = (
+    calldata: BytesLike,
+    maxDepth: number = 4,
+    options: GuessOptions = {},
+): CallTree | null => {
+    const bytes = arrayify(calldata);
+    if (bytes.length === 0) return null;
+
+    return buildCallTree('', bytes, 0, maxDepth, options);
+};
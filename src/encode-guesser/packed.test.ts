@@ -0,0 +1,60 @@
+import { solidityPack } from 'ethers/lib/utils';
+import { guessPackedData } from './packed';
+
+const weth = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+const usdc = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const dai = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+
+// the types of the best guess for the packed values
+const guessTypes = (types: string[], vals: any[]) =>
+    guessPackedData(solidityPack(types, vals))[0]?.params.map((v) => v.format());
+
+describe('packed', () => {
+    it('should guess uniswap v3 paths', () => {
+        const guesses = guessPackedData(
+            solidityPack(['address', 'uint24', 'address', 'uint24', 'address'], [weth, 3000, usdc, 100, dai]),
+        );
+
+        expect(guesses[0].params.map((v) => v.format())).toEqual(['address', 'uint24', 'address', 'uint24', 'address']);
+        expect(guesses[0].offsets).toEqual([0, 20, 23, 43, 46]);
+        expect(guesses[0].reasons).toContain('3000 at 20 is a uniswap v3 fee tier');
+    });
+
+    it('should guess merkle leaves and signed messages', () => {
+        expect(guessTypes(['address', 'uint256'], [weth, 1000])).toEqual(['address', 'uint256']);
+        expect(
+            guessTypes(['address', 'uint256', 'uint256', 'bytes32'], [weth, 5, 1700000000, '0x' + 'ab'.repeat(32)]),
+        ).toEqual(['address', 'uint256', 'uint256', 'bytes32']);
+    });
+
+    it('should guess narrow numbers', () => {
+        expect(guessTypes(['uint32', 'uint64', 'address'], [7, 123456789, usdc])).toEqual([
+            'uint32',
+            'uint64',
+            'address',
+        ]);
+    });
+
+    it('should guess trailing text', () => {
+        expect(guessTypes(['address', 'string'], [usdc, 'hello world'])).toEqual(['address', 'string']);
+
+        // control characters are valid utf-8, but they aren't text
+        const guesses = guessPackedData(solidityPack(['address', 'bytes'], [usdc, '0x0102030405060708090a0b']), 10);
+        expect(guesses.flatMap((v) => v.params.map((w) => w.format()))).not.toContain('string');
+    });
+
+    it('should rank the alternatives', () => {
+        const guesses = guessPackedData(solidityPack(['address', 'uint256'], [weth, 1000]), 5);
+
+        expect(guesses.length).toBe(5);
+        guesses.forEach((guess, i) => {
+            expect(guess.score).toBeGreaterThanOrEqual(0);
+            expect(guess.score).toBeLessThanOrEqual(1);
+            if (i > 0) expect(guess.score).toBeLessThanOrEqual(guesses[i - 1].score);
+        });
+    });
+
+    it('should not guess empty data', () => {
+        expect(guessPackedData('0x')).toEqual([]);
+    });
+});
@@ -0,0 +1,166 @@
+import { ParamType } from '@ethersproject/abi';
+import { arrayify, BytesLike, zeroPad } from 'ethers/lib/utils';
+import { GuessOptions } from './guess';
+import { countLeadingZeros, guessStaticType, isPrintableText } from './types';
+
+export type PackedGuess = {
+    // the guessed types, in the order they were packed
+    params: ParamType[];
+
+    // where each param starts in the data
+    offsets: number[];
+
+    // how confident we are in this guess, between 0 and 1
+    score: number;
+
+    // human readable explanations of what contributed to the score
+    reasons: string[];
+};
+
+// a possible interpretation of the bytes at some position
+type PackedField = {
+    type: string;
+    width: number;
+
+    // how much the bytes look like the type, between 0 and 1
+    score: number;
+
+    reason: string | null;
+};
+
+// the widths of the numbers we look for, other than full words. uint24 is common thanks to uniswap v3 fees,
+// and uint40 and uint48 are common for timestamps
+const NUMBER_WIDTHS = [1, 2, 3, 4, 5, 6, 8, 12, 16];
+
+// the fee tiers of uniswap v3 pools, which show up in every swap path
+const FEE_TIERS = new Set([100, 500, 3000, 10000]);
+
+// every field costs this many bytes worth of score. otherwise a number could just as well be split into bytes,
+// each of which looks like a perfectly fine uint8
+const FIELD_PENALTY = 2;
+
+// numbers are usually much smaller than their type allows, while random bytes use every byte they have
+const scoreNumber = (bytes: Uint8Array): number => {
+    const significant = bytes.length - countLeadingZeros(bytes);
+    return significant <= 1 ? 1 : 1 - (significant - 1) / bytes.length;
+};
+
+// every way to interpret the bytes of the given width at pos
+const scoreFields = (data: Uint8Array, pos: number, width: number, options: GuessOptions): PackedField[] => {
+    const bytes = data.subarray(pos, pos + width);
+
+    // the static type heuristics work on words, and a packed value is just a word with the padding removed
+    const guessed = guessStaticType(zeroPad(bytes, 32), options.inference);
+
+    // a few leading zeros are allowed in an address or a hash, but every one of them makes it more likely
+    // that we're looking at the end of a number instead
+    const leadingZeros = countLeadingZeros(bytes);
+
+    if (width === 32) {
+        // a word is a word, no matter what it looks like inside
+        if (guessed.baseType === 'address') {
+            const score = Math.max(0.1, 0.9 - 0.2 * (leadingZeros - 12));
+            return [{ type: 'uint256', width, score, reason: `the word at ${pos} looks like a padded address` }];
+        } else if (guessed.baseType.startsWith('int')) {
+            return [{ type: 'int256', width, score: 0.9, reason: null }];
+        } else if (guessed.baseType.startsWith('bytes')) {
+            return [{ type: 'bytes32', width, score: Math.max(0.1, 0.8 - 0.2 * leadingZeros), reason: null }];
+        }
+        return [{ type: 'uint256', width, score: scoreNumber(bytes), reason: null }];
+    }
+
+    if (width === 20) {
+        if (guessed.baseType === 'address') {
+            const score = Math.max(0.1, 1 - 0.2 * leadingZeros);
+            return [{ type: 'address', width, score, reason: `the 20 bytes at ${pos} look like an address` }];
+        }
+        // the zero address is common, anything else with this many zeros is a number
+        return [{ type: 'address', width, score: bytes.every((v) => v === 0) ? 0.5 : 0.1, reason: null }];
+    }
+
+    const fields: PackedField[] = [];
+    if (width === 3 && FEE_TIERS.has((bytes[0] << 16) | (bytes[1] << 8) | bytes[2])) {
+        const fee = (bytes[0] << 16) | (bytes[1] << 8) | bytes[2];
+        fields.push({ type: 'uint24', width, score: 1, reason: `${fee} at ${pos} is a uniswap v3 fee tier` });
+    } else if (width === 1 && guessed.baseType === 'bool') {
+        fields.push({ type: 'bool', width, score: 1, reason: null });
+    } else {
+        fields.push({ type: `uint${width * 8}`, width, score: scoreNumber(bytes), reason: null });
+    }
+    return fields;
+};
+
+// everything from pos to the end as a single bytes or string, which can only ever be the last value
+const scoreTrailingField = (data: Uint8Array, pos: number): PackedField => {
+    const width = data.length - pos;
+    if (isPrintableText(data.subarray(pos))) {
+        return { type: 'string', width, score: 0.8, reason: `the last ${width} bytes look like text` };
+    }
+    return { type: 'bytes', width, score: 0.2, reason: null };
+};
+
+// a partial guess, covering the data up to some position
+type PackedPath = {
+    fields: PackedField[];
+
+    // the sum of the score of every byte, minus the penalty for every field
+    total: number;
+};
+
+/*
+guess the types of data that was encoded with abi.encodePacked. packed values have no padding and no lengths,
+so we try every way to split the data into addresses, words, numbers of common widths and a trailing bytes or
+string, and keep the limit best splits. each value is judged with the same heuristics that we use for words
+ */
+export const guessPackedData = (bytes: BytesLike, limit: number = 10, options: GuessOptions = {}): PackedGuess[] => {
+    const data = arrayify(bytes);
+    if (data.length === 0) return [];
+
+    const widths = [32, 20, ...NUMBER_WIDTHS];
+
+    // the best paths which end at each position. we only ever need the best few of them to build the best guesses
+    const best: PackedPath[][] = Array.from(Array(data.length + 1), () => []);
+    best[0].push({ fields: [], total: 0 });
+
+    const extend = (pos: number, path: PackedPath, field: PackedField) => {
+        const paths = best[pos + field.width];
+        const total = path.total + field.score * field.width - FIELD_PENALTY;
+
+        // keep the list sorted and short. earlier paths win ties
+        let idx = paths.length;
+        while (idx > 0 && paths[idx - 1].total < total) idx--;
+        if (idx >= limit) return;
+
+        paths.splice(idx, 0, { fields: [...path.fields, field], total });
+        if (paths.length > limit) paths.pop();
+    };
+
+    for (let pos = 0; pos < data.length; pos++) {
+        if (best[pos].length === 0) continue;
+
+        const fields = widths
+            .filter((width) => pos + width <= data.length)
+            .flatMap((width) => scoreFields(data, pos, width, options));
+        const trailing = scoreTrailingField(data, pos);
+
+        for (const path of best[pos]) {
+            fields.forEach((field) => extend(pos, path, field));
+            extend(pos, path, trailing);
+        }
+    }
+
+    return best[data.length].map((path) => {
+        const offsets: number[] = [];
+        path.fields.reduce((pos, field) => {
+            offsets.push(pos);
+            return pos + field.width;
+        }, 0);
+
+        return {
+            params: path.fields.map((v) => ParamType.from(v.type)),
+            offsets,
+            score: Math.max(0, Math.min(1, path.total / data.length)),
+            reasons: path.fields.map((v) => v.reason).filter((v): v is string => v !== null),
+        };
+    });
+};
@@ -0,0 +1,55 @@
+import { defaultAbiCoder } from '@ethersproject/abi';
+import { Wallet } from 'ethers';
+import { hexlify, joinSignature, keccak256, RLP, toUtf8Bytes } from 'ethers/lib/utils';
+import { classifyBytes, guessAbiEncodedDataWithPayloads } from './payloads';
+
+const wallet = new Wallet('0x' + '11'.repeat(32));
+const signature = joinSignature(wallet._signingKey().signDigest(keccak256('0x1234')));
+
+describe('payloads', () => {
+    it('should only classify printable text as text', () => {
+        expect(classifyBytes(hexlify(toUtf8Bytes('hello world\n'))).kind).toBe('text');
+
+        // valid utf-8, but nobody writes control characters
+        expect(classifyBytes('0x1234').kind).toBe('opaque');
+        expect(classifyBytes('0x').kind).toBe('empty');
+    });
+
+    it('should classify signatures and addresses', () => {
+        expect(classifyBytes(signature).kind).toBe('signature');
+        expect(classifyBytes(wallet.address).kind).toBe('address');
+
+        // a hash with a v tacked on is not a signature
+        expect(classifyBytes(keccak256('0x01') + '00'.repeat(32) + '1b').kind).toBe('opaque');
+    });
+
+    it('should classify nested abi encoded values', () => {
+        const classification = classifyBytes(
+            defaultAbiCoder.encode(['address', 'uint256', 'bytes'], [wallet.address, 5, signature]),
+        );
+
+        expect(classification.kind).toBe('abi-encoded');
+        expect(classification.params?.map((v) => v.format())).toEqual(['address', 'uint256', 'bytes']);
+        expect(classification.payloads).toEqual([expect.objectContaining({ path: 'arg2', kind: 'signature' })]);
+
+        // hashes are words too, but they don't tell us anything
+        expect(classifyBytes(keccak256('0x01') + keccak256('0x02').substring(2)).kind).toBe('opaque');
+    });
+
+    it('should classify rlp lists', () => {
+        expect(classifyBytes(RLP.encode(['0x01', '0x1234', ['0x05']])).kind).toBe('rlp');
+        expect(classifyBytes(RLP.encode('0x1234')).kind).toBe('opaque');
+    });
+
+    it('should classify every bytes value in the data', () => {
+        const data = defaultAbiCoder.encode(['string', 'bytes[]'], ['hello', [signature, wallet.address]]);
+        const guessed = guessAbiEncodedDataWithPayloads(data);
+
+        expect(guessed?.params.map((v) => v.format())).toEqual(['string', 'bytes[]']);
+        expect(guessed?.payloads.map((v) => [v.path, v.kind])).toEqual([
+            ['arg0', 'text'],
+            ['arg1[0]', 'signature'],
+            ['arg1[1]', 'address'],
+        ]);
+    });
+});
@@ -0,0 +1,153 @@
+import { defaultAbiCoder, ParamType } from '@ethersproject/abi';
+import { BigNumber } from 'ethers';
+import { arrayify, BytesLike, RLP, toUtf8Bytes, zeroPad } from 'ethers/lib/utils';
+import { guessAbiEncodedData, GuessOptions } from './guess';
+import { guessStaticType, isPrintableText } from './types';
+import { walkValues } from './values';
+
+// what a bytes value holds
+// - empty: nothing at all
+// - text: printable utf-8
+// - signature: a 65 byte ecdsa signature, r then s then v
+// - address: a single 20 byte address, like the target of a call or a token in a path
+// - abi-encoded: the output of abi.encode, see params
+// - rlp: a list encoded with rlp, like a transaction or a merkle patricia proof node
+// - opaque: anything else
+export type BytesKind = 'empty' | 'text' | 'signature' | 'address' | 'abi-encoded' | 'rlp' | 'opaque';
+
+export type BytesClassification = {
+    kind: BytesKind;
+
+    // a human readable explanation of the kind
+    reason: string;
+
+    // for abi-encoded, the guessed types
+    params?: ParamType[];
+
+    // for abi-encoded, every bytes value inside of it, classified in turn. empty past maxDepth
+    payloads?: BytesPayload[];
+};
+
+export type BytesPayload = BytesClassification & {
+    // where the value was found, ex: arg1[2].0
+    path: string;
+};
+
+export type GuessWithPayloads = {
+    // the guessed types
+    params: ParamType[];
+
+    // every bytes and string value in the data
+    payloads: BytesPayload[];
+};
+
+export type ClassifyOptions = GuessOptions & {
+    // how many levels of abi-encoded values to look inside of. defaults to 2
+    maxDepth?: number;
+};
+
+// the order of the secp256k1 curve. r and s are always less than this
+const SECP256K1_N = BigNumber.from('0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141');
+
+const isSignature = (bytes: Uint8Array): boolean => {
+    if (bytes.length !== 65) return false;
+
+    // v is 27 or 28, or 0 or 1 for signatures which were never meant for ecrecover
+    if (![0, 1, 27, 28].includes(bytes[64])) return false;
+
+    const r = BigNumber.from(bytes.subarray(0, 32));
+    const s = BigNumber.from(bytes.subarray(32, 64));
+    return !r.isZero() && !s.isZero() && r.lt(SECP256K1_N) && s.lt(SECP256K1_N);
+};
+
+// rlp with a list at the top level. a single rlp string is far too easy to hit by accident
+const isRlpList = (bytes: Uint8Array): boolean => {
+    if (bytes.length < 2 || bytes[0] < 0xc0) return false;
+
+    try {
+        // this throws if anything is left over
+        return Array.isArray(RLP.decode(bytes));
+    } catch {
+        return false;
+    }
+};
+
+// abi encoded data with some structure. any whole number of words can be read as bytes32 values, which tells
+// us nothing, so at least one of the values has to look like something else
+const guessStructuredParams = (bytes: Uint8Array, options: GuessOptions): ParamType[] | null => {
+    if (bytes.length === 0 || bytes.length % 32 !== 0) return null;
+
+    const params = guessAbiEncodedData(bytes, options);
+    if (!params || params.every((v) => /^bytes[0-9]+$/.test(v.type))) return null;
+    return params;
+};
+
+// classify every bytes and string value of the params, naming the top level params arg0, arg1, ...
+const classifyPayloads = (
+    params: ReadonlyArray<ParamType>,
+    bytes: Uint8Array,
+    options: ClassifyOptions,
+    depth: number,
+): BytesPayload[] => {
+    const payloads: BytesPayload[] = [];
+    for (const [param, value, path] of walkValues(params, defaultAbiCoder.decode(params, bytes))) {
+        if (param.baseType === 'bytes') {
+            payloads.push({ path, ...classify(arrayify(value), options, depth) });
+        } else if (param.baseType === 'string') {
+            payloads.push({ path, ...classify(toUtf8Bytes(value), options, depth) });
+        }
+    }
+    return payloads;
+};
+
+const classify = (bytes: Uint8Array, options: ClassifyOptions, depth: number): BytesClassification => {
+    if (bytes.length === 0) {
+        return { kind: 'empty', reason: 'there are no bytes' };
+    } else if (isPrintableText(bytes)) {
+        return { kind: 'text', reason: 'every character is printable' };
+    } else if (isSignature(bytes)) {
+        return { kind: 'signature', reason: 'the 65 bytes look like r, s and v' };
+    } else if (bytes.length === 20 && guessStaticType(zeroPad(bytes, 32)).baseType === 'address') {
+        return { kind: 'address', reason: 'the 20 bytes look like an address' };
+    }
+
+    const params = guessStructuredParams(bytes, options);
+    if (params) {
+        return {
+            kind: 'abi-encoded',
+            reason: 'the bytes decode as abi encoded values',
+            params,
+            payloads: depth < (options.maxDepth ?? 2) ? classifyPayloads(params, bytes, options, depth + 1) : [],
+        };
+    } else if (isRlpList(bytes)) {
+        return { kind: 'rlp', reason: 'the bytes decode as an rlp list' };
+    }
+    return { kind: 'opaque', reason: 'the bytes look like nothing in particular' };
+};
+
+/*
+work out what a bytes value holds, beyond whether it's a string. text has to be printable, not just valid utf-8,
+and binary data is checked for the usual suspects: signatures, addresses, nested abi encoded values and rlp.
+nested abi encoded values are guessed with guessAbiEncodedData, and the bytes values inside of them are classified
+in turn, up to maxDepth levels deep. like every other guess, it only looks at the shape of the bytes
+ */
+export const classifyBytes = (bytes: BytesLike, options: ClassifyOptions = {}): BytesClassification => {
+    return classify(arrayify(bytes), options, 0);
+};
+
+/*
+like guessAbiEncodedData, but also classify every bytes and string value in the data, see classifyBytes.
+strings are included since any bytes value that's printable is guessed as a string
+ */
+export const guessAbiEncodedDataWithPayloads = (
+    bytes: BytesLike,
+    options: ClassifyOptions = {},
+): GuessWithPayloads | null => {
+    const data = arrayify(bytes);
+    const params = guessAbiEncodedData(data, options);
+    if (!params) {
+        return null;
+    }
+
+    return { params, payloads: classifyPayloads(params, data, options, 0) };
+};
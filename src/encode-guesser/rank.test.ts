@@ -0,0 +1,43 @@
+import { defaultAbiCoder, ParamType } from '@ethersproject/abi';
+import { arrayify } from 'ethers/lib/utils';
+import { scoreParams } from './rank';
+
+const encode = (types: string[], args: any[]) => arrayify(defaultAbiCoder.encode(types, args));
+
+describe('rank', () => {
+    it('should prefer types that round trip', () => {
+        const data = encode(['string'], ['hello world']);
+
+        const clean = scoreParams([ParamType.from('string')], data);
+        const dirty = scoreParams([ParamType.from('(uint256,uint256)')], data);
+
+        expect(clean.score).toBeGreaterThan(dirty.score);
+        expect(clean.reasons).toContain('re-encodes to exactly the input');
+    });
+
+    it('should prefer simpler types', () => {
+        const data = encode(['bytes'], ['0x80']);
+
+        const simple = scoreParams([ParamType.from('bytes')], data);
+        const complex = scoreParams([ParamType.from('bytes1[]')], data);
+
+        expect(simple.score).toBeGreaterThan(complex.score);
+    });
+
+    it('should penalize words that look like unresolved offsets', () => {
+        const data = encode(['uint256[]'], [[1, 2, 3]]);
+
+        const array = scoreParams([ParamType.from('uint256[]')], data);
+        const flat = scoreParams(
+            ['uint256', 'uint256', 'uint256', 'uint256', 'uint256'].map((v) => ParamType.from(v)),
+            data,
+        );
+
+        expect(array.score).toBeGreaterThan(flat.score);
+        expect(flat.reasons).toContain('1 uint256 values look like unresolved offsets');
+    });
+
+    it('should give zero to types that do not decode', () => {
+        expect(scoreParams([ParamType.from('string')], encode(['uint256'], [1])).score).toBe(0);
+    });
+});
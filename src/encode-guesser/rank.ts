@@ -0,0 +1,131 @@
+import { defaultAbiCoder, ParamType } from '@ethersproject/abi';
+import { BigNumber } from 'ethers';
+import { arrayify } from 'ethers/lib/utils';
+import { EMPTY_DYNAMIC } from './types';
+
+// types that we fall back to when we couldn't figure out anything more specific
+const weakTypes = new Set(['bytes32']);
+
+// how much each component contributes to the final score
+const CLEANLINESS_WEIGHT = 0.5;
+const SIMPLICITY_WEIGHT = 0.25;
+const TYPE_STRENGTH_WEIGHT = 0.25;
+
+type TypeStats = {
+    // the number of leaf values
+    leaves: number;
+
+    // the number of leaf values with a specific type
+    strongLeaves: number;
+
+    // the number of uint256 values which look like they might have been an offset instead
+    offsetLikeLeaves: number;
+};
+
+// check if a value could have been an offset into data of the given length
+const isOffsetLike = (val: BigNumber, dataLength: number): boolean => {
+    return val.gt(0) && val.lt(dataLength) && val.mod(32).isZero();
+};
+
+// count the number of tuples and arrays in the type itself, regardless of how many elements each array has
+const countContainers = (param: ParamType): number => {
+    if (param.format() === EMPTY_DYNAMIC) {
+        return 0;
+    } else if (param.baseType === 'tuple') {
+        return 1 + param.components.map(countContainers).reduce((a, b) => a + b, 0);
+    } else if (param.baseType === 'array') {
+        return 1 + countContainers(param.arrayChildren);
+    }
+    return 0;
+};
+
+const collectTypeStats = (params: ParamType[], vals: Array<any>, dataLength: number, stats: TypeStats) => {
+    params.forEach((param, idx) => {
+        const val = vals[idx];
+
+        if (weakTypes.has(param.format())) {
+            stats.leaves++;
+        } else if (param.format() === EMPTY_DYNAMIC) {
+            // the marker for empty dynamic values is exactly what the data says, so it's neither weak nor complex
+            stats.leaves++;
+            stats.strongLeaves++;
+        } else if (param.baseType === 'tuple') {
+            collectTypeStats(param.components, val, dataLength, stats);
+        } else if (param.baseType === 'array') {
+            for (const child of val) {
+                collectTypeStats([param.arrayChildren], [child], dataLength, stats);
+            }
+        } else if (param.type === 'uint256' && isOffsetLike(val, dataLength)) {
+            stats.leaves++;
+            stats.offsetLikeLeaves++;
+        } else {
+            stats.leaves++;
+            stats.strongLeaves++;
+        }
+    });
+};
+
+// count how many bytes differ between the input and what we get when we re-encode it with the given types
+// canonical encoders zero all padding, so a dirty byte is a good hint that the types are wrong
+const countDirtyBytes = (params: ParamType[], vals: Array<any>, data: Uint8Array): number => {
+    const reencoded = arrayify(defaultAbiCoder.encode(params, vals));
+
+    let dirty = Math.abs(reencoded.length - data.length);
+    for (let i = 0; i < Math.min(reencoded.length, data.length); i++) {
+        if (reencoded[i] !== data[i]) dirty++;
+    }
+    return dirty;
+};
+
+// score a guess between 0 and 1 based on how simple the types are, how cleanly they round trip, and
+// how confident the type heuristics were. also returns the reasons behind the score
+export const scoreParams = (params: ParamType[], data: Uint8Array): { score: number; reasons: string[] } => {
+    const reasons: string[] = [];
+
+    let vals: Array<any>;
+    try {
+        vals = Array.from(defaultAbiCoder.decode(params, data));
+    } catch {
+        return { score: 0, reasons: ['could not be decoded'] };
+    }
+
+    let cleanliness: number;
+    try {
+        const dirty = countDirtyBytes(params, vals, data);
+        cleanliness = data.length === 0 ? 1 : 1 - dirty / data.length;
+        if (dirty === 0) {
+            reasons.push('re-encodes to exactly the input');
+        } else {
+            reasons.push(`re-encoding differs from the input in ${dirty} of ${data.length} bytes`);
+        }
+    } catch {
+        cleanliness = 0;
+        reasons.push('could not be re-encoded');
+    }
+
+    const containers = params.map(countContainers).reduce((a, b) => a + b, 0);
+    const simplicity = 1 / (1 + containers / 8);
+    if (containers === 0) {
+        reasons.push('has no tuples or arrays');
+    } else {
+        reasons.push(`has ${containers} tuple or array types`);
+    }
+
+    const stats: TypeStats = { leaves: 0, strongLeaves: 0, offsetLikeLeaves: 0 };
+    collectTypeStats(params, vals, data.length, stats);
+
+    // a value that looks like an offset is evidence against the guess, not just the absence of evidence for it
+    const typeStrength =
+        stats.leaves === 0 ? 1 : Math.max(0, (stats.strongLeaves - stats.offsetLikeLeaves) / stats.leaves);
+    if (stats.leaves > 0) {
+        reasons.push(`${stats.strongLeaves} of ${stats.leaves} values have a specific type`);
+    }
+    if (stats.offsetLikeLeaves > 0) {
+        reasons.push(`${stats.offsetLikeLeaves} uint256 values look like unresolved offsets`);
+    }
+
+    return {
+        score: CLEANLINESS_WEIGHT * cleanliness + SIMPLICITY_WEIGHT * simplicity + TYPE_STRENGTH_WEIGHT * typeStrength,
+        reasons,
+    };
+};
@@ -0,0 +1,48 @@
+import { defaultAbiCoder, ParamType } from '@ethersproject/abi';
+import { guessAbiEncodedData } from './guess';
+import { regroupStaticParams } from './regroup';
+
+const recipient = '0x111A66beC9536aF6DA69Dd198F5252857dFB2FB1';
+
+const format = (params: ReadonlyArray<ParamType>) => params.map((v) => v.format());
+
+describe('regroup', () => {
+    it('should regroup tuples which show up elsewhere in the params', () => {
+        const data = defaultAbiCoder.encode(
+            ['(address,uint256)', '(address,uint256)[]', 'string'],
+            [[recipient, 5], [[recipient, 7]], 'hello'],
+        );
+        const params = guessAbiEncodedData(data)!;
+        expect(format(params)).toEqual(['address', 'uint256', '(address,uint256)[]', 'string']);
+
+        const [regrouped] = regroupStaticParams(params);
+        expect(format(regrouped.params)).toEqual(['(address,uint256)', '(address,uint256)[]', 'string']);
+        expect(regrouped.reasons).toEqual(['0 to 1 look like the (address,uint256) found elsewhere in the params']);
+    });
+
+    it('should regroup tuples which show up in the samples', () => {
+        const params = [ParamType.from('uint256'), ParamType.from('address'), ParamType.from('uint256')];
+        const alternatives = regroupStaticParams(params, [[ParamType.from('(address,uint256)[]')]]);
+
+        expect(alternatives.map((v) => format(v.params))).toEqual([['uint256', '(address,uint256)']]);
+    });
+
+    it('should propose fixed size arrays for runs of the same type', () => {
+        const params = guessAbiEncodedData(defaultAbiCoder.encode(['uint256[3]', 'string'], [[1, 2, 3], 'hello']))!;
+        const alternatives = regroupStaticParams(params);
+
+        expect(alternatives.map((v) => format(v.params))).toEqual([['uint256[3]', 'string']]);
+        expect(alternatives[0].reasons).toEqual(['0 to 2 could be a uint256[3]']);
+    });
+
+    it('should regroup values inside dynamic tuples', () => {
+        const params = [ParamType.from('(bytes32,bytes32,string)')];
+
+        expect(format(regroupStaticParams(params)[0].params)).toEqual(['(bytes32[2],string)']);
+        expect(regroupStaticParams(params)[0].reasons).toEqual(['0.0 to 0.1 could be a bytes32[2]']);
+    });
+
+    it('should not propose anything for params that cannot be regrouped', () => {
+        expect(regroupStaticParams([ParamType.from('address'), ParamType.from('uint256')])).toEqual([]);
+    });
+});
@@ -0,0 +1,204 @@
+import { ParamType } from '@ethersproject/abi';
+import { staticWords } from './hints';
+import { isDynamic } from './structure';
+import { mergeTypes } from './types';
+
+export type RegroupedParams = {
+    // the params with some of the static values grouped into tuples and fixed size arrays
+    params: ParamType[];
+
+    // human readable explanations of every group, ex: 1 to 3 could be a uint256[3]
+    reasons: string[];
+};
+
+// runs shorter than this are too common to be worth proposing as an array
+const MIN_ARRAY_LENGTH = 2;
+
+// a static tuple that we've seen somewhere, which the flat values might have been
+type TupleShape = {
+    tuple: ParamType;
+
+    // the single word types the tuple is encoded as, see staticWords
+    words: ParamType[];
+
+    // where we saw it, for the reasons
+    source: string;
+};
+
+const isWord = (param: ParamType) => !isDynamic(param) && param.baseType !== 'tuple' && param.baseType !== 'array';
+
+// what kind of value a word holds. narrowed numbers and bytes are still the same kind of value
+const wordKind = (param: ParamType): string => {
+    if (/^u?int[0-9]+$/.test(param.type) || param.type === 'bool') return 'number';
+    if (/^bytes[0-9]+$/.test(param.type)) return 'bytes';
+    return param.type;
+};
+
+// check if a word we guessed could be a word of a tuple we've seen. the zero address looks like a number, but
+// letting every number be an address would match far too much
+const wordsAgree = (guessed: ParamType, seen: ParamType): boolean => wordKind(guessed) === wordKind(seen);
+
+// every static tuple in the params, including the children of arrays
+const collectShapes = (params: ReadonlyArray<ParamType>, source: string, shapes: TupleShape[]) => {
+    for (const param of params) {
+        if (param.baseType === 'tuple') {
+            if (!isDynamic(param) && staticWords(param).length >= 2) {
+                shapes.push({ tuple: param, words: staticWords(param), source });
+            }
+            collectShapes(param.components, source, shapes);
+        } else if (param.baseType === 'array') {
+            collectShapes([param.arrayChildren], source, shapes);
+        }
+    }
+};
+
+// rebuild the tuple with the types of the words it's replacing, which might be narrower or wider
+const rebuildShape = (shape: ParamType, words: ParamType[]): ParamType => {
+    if (shape.baseType === 'tuple') {
+        return ParamType.from(`(${shape.components.map((v) => rebuildShape(v, words).format()).join(',')})`);
+    } else if (shape.baseType === 'array') {
+        const children = Array.from(Array(shape.arrayLength).keys()).map(() =>
+            rebuildShape(shape.arrayChildren, words),
+        );
+
+        // the elements of an array all have the same type, so fall back to what we saw if they disagree
+        const child = children.every((v) => v.format() === children[0].format()) ? children[0] : shape.arrayChildren;
+        return ParamType.from(`${child.format()}[${shape.arrayLength}]`);
+    } else if (shape.baseType === '') {
+        return shape;
+    }
+    return mergeTypes([shape, words.shift()!]);
+};
+
+// a regrouped value, along with the flat values it replaces
+type Group = {
+    param: ParamType;
+    start: number;
+    end: number;
+};
+
+// reasons always refer to the flat values, since those are what the caller has
+const describeRange = (path: string, start: number, end: number) => `${path}${start} to ${path}${end - 1}`;
+
+// replace every run of words that matches a known tuple, longest tuples first
+const groupTuples = (
+    params: ReadonlyArray<ParamType>,
+    shapes: ReadonlyArray<TupleShape>,
+    path: string,
+    reasons: string[],
+): Group[] => {
+    const grouped: Group[] = [];
+    for (let i = 0; i < params.length; ) {
+        const shape = shapes.find(
+            (v) =>
+                i + v.words.length <= params.length &&
+                v.words.every((word, j) => isWord(params[i + j]) && wordsAgree(params[i + j], word)),
+        );
+        if (shape === undefined) {
+            grouped.push({ param: params[i], start: i, end: i + 1 });
+            i++;
+            continue;
+        }
+
+        const end = i + shape.words.length;
+        const tuple = rebuildShape(shape.tuple, params.slice(i, end));
+        reasons.push(`${describeRange(path, i, end)} look like the ${tuple.format()} ${shape.source}`);
+        grouped.push({ param: tuple, start: i, end });
+        i = end;
+    }
+    return grouped;
+};
+
+// replace every run of identical static values with a fixed size array
+const groupArrays = (groups: ReadonlyArray<Group>, path: string, reasons: string[]): Group[] => {
+    const grouped: Group[] = [];
+    for (let i = 0; i < groups.length; ) {
+        const param = groups[i].param;
+
+        let end = i + 1;
+        while (!isDynamic(param) && end < groups.length && groups[end].param.format() === param.format()) end++;
+
+        if (end - i < MIN_ARRAY_LENGTH) {
+            grouped.push(groups[i]);
+        } else {
+            const array = ParamType.from(`${param.format()}[${end - i}]`);
+            reasons.push(`${describeRange(path, groups[i].start, groups[end - 1].end)} could be a ${array.format()}`);
+            grouped.push({ param: array, start: groups[i].start, end: groups[end - 1].end });
+        }
+        i = end;
+    }
+    return grouped;
+};
+
+// regroup the values of a tuple, and then the values of every dynamic tuple inside of it
+const regroupTuple = (
+    params: ReadonlyArray<ParamType>,
+    shapes: ReadonlyArray<TupleShape>,
+    arrays: boolean,
+    path: string,
+    reasons: string[],
+): ParamType[] => {
+    // static tuples are only ever regrouped as a whole, dynamic ones have their own flat values
+    const regroupParam = (param: ParamType, paramPath: string): ParamType => {
+        if (!isDynamic(param)) return param;
+
+        if (param.baseType === 'tuple') {
+            const components = regroupTuple(param.components, shapes, arrays, `${paramPath}.`, reasons);
+            return ParamType.from(`(${components.map((v) => v.format()).join(',')})`);
+        } else if (param.baseType === 'array') {
+            const children = regroupParam(param.arrayChildren, `${paramPath}[]`);
+            return ParamType.from(`${children.format()}[${param.arrayLength === -1 ? '' : param.arrayLength}]`);
+        }
+        return param;
+    };
+
+    let grouped = groupTuples(params, shapes, path, reasons);
+    if (arrays) {
+        grouped = groupArrays(grouped, path, reasons);
+    }
+
+    // dynamic values are never grouped, so they keep their flat index
+    return grouped.map((v) => regroupParam(v.param, `${path}${v.start}`));
+};
+
+/*
+static tuples and fixed size arrays are encoded exactly like their values one after the other, so the guesser
+can only ever return them as flat lists of values. this proposes ways to regroup them: values that match a static
+tuple seen elsewhere in the params (ex: as the children of a dynamic array) or in the samples (ex: the guesses for
+other calls to the same contract) become that tuple, and runs of identical values become fixed size arrays. the
+proposals are alternatives to the flat params, the data alone can't tell which one is right. if nothing could be
+regrouped, nothing is proposed
+ */
+export const regroupStaticParams = (
+    params: ReadonlyArray<ParamType>,
+    samples: ReadonlyArray<ReadonlyArray<ParamType>> = [],
+): RegroupedParams[] => {
+    const shapes: TupleShape[] = [];
+    collectShapes(params, 'found elsewhere in the params', shapes);
+    samples.forEach((v) => collectShapes(v, 'found in the samples', shapes));
+
+    // prefer the biggest tuples, and the first place we saw each of them
+    const uniqueShapes = shapes
+        .filter((v, i) => shapes.findIndex((w) => w.tuple.format() === v.tuple.format()) === i)
+        .sort((a, b) => b.words.length - a.words.length);
+
+    const flat = params.map((v) => v.format()).join(',');
+    const alternatives: RegroupedParams[] = [];
+    // tuples only, arrays only, then both
+    const passes: Array<[ReadonlyArray<TupleShape>, boolean]> = [
+        [uniqueShapes, false],
+        [[], true],
+        [uniqueShapes, true],
+    ];
+    for (const [tuples, arrays] of passes) {
+        const reasons: string[] = [];
+        const regrouped = regroupTuple(params, tuples, arrays, '', reasons);
+
+        const formatted = regrouped.map((v) => v.format()).join(',');
+        if (formatted === flat || alternatives.some((v) => v.params.map((w) => w.format()).join(',') === formatted)) {
+            continue;
+        }
+        alternatives.push({ params: regrouped, reasons });
+    }
+    return alternatives;
+};
@@ -0,0 +1,95 @@
+import { ethers } from 'ethers';
+import { identifyFragment, matchSignatures, parseSignatureDatabase } from './signatures';
+
+const abi = new ethers.utils.Interface([
+    'function transfer(address to, uint256 amount)',
+    'function burn(uint256 amount)',
+    'function collate_propagate_storage(bytes16)',
+]);
+
+const transfer = abi.encodeFunctionData('transfer', ['0x111a66bec9536af6da69dd198f5252857dfb2fb1', 1234]);
+
+describe('signatures', () => {
+    it('should parse text dumps', () => {
+        const db = parseSignatureDatabase(
+            ['# comment', 'transfer(address, uint256)', '', '0x42966c68,burn(uint256)', '42966c68 burn(uint256)'].join(
+                '\n',
+            ),
+        );
+
+        expect(Array.from(db.entries())).toEqual([
+            ['0xa9059cbb', ['transfer(address,uint256)']],
+            ['0x42966c68', ['burn(uint256)']],
+        ]);
+    });
+
+    it('should parse json dumps', () => {
+        const expected = [['0xa9059cbb', ['transfer(address,uint256)']]];
+
+        expect(Array.from(parseSignatureDatabase('["transfer(address,uint256)"]').entries())).toEqual(expected);
+        expect(
+            Array.from(parseSignatureDatabase('[{"text_signature":"transfer(address,uint256)"}]').entries()),
+        ).toEqual(expected);
+        expect(Array.from(parseSignatureDatabase('{"a9059cbb":"transfer(address,uint256)"}').entries())).toEqual(
+            expected,
+        );
+        expect(Array.from(parseSignatureDatabase('{"0xa9059cbb":["transfer(address,uint256)"]}').entries())).toEqual(
+            expected,
+        );
+    });
+
+    it('should parse pages from the 4byte api', () => {
+        const page = JSON.stringify({
+            count: 1,
+            next: null,
+            previous: null,
+            results: [{ id: 1, text_signature: 'transfer(address,uint256)', hex_signature: '0xa9059cbb' }],
+        });
+
+        expect(Array.from(parseSignatureDatabase(page).entries())).toEqual([
+            ['0xa9059cbb', ['transfer(address,uint256)']],
+        ]);
+    });
+
+    it('should reject json objects it does not recognise', () => {
+        expect(() => parseSignatureDatabase('{"count":0,"signatures":[]}')).toThrow(
+            'expected an object mapping selectors to signatures, found count',
+        );
+    });
+
+    it('should name functions from the database', () => {
+        const db = parseSignatureDatabase('transfer(address,uint256)');
+        const identified = identifyFragment(transfer, db);
+
+        expect(identified.source).toBe('database');
+        expect(identified.fragment?.format()).toBe('transfer(address,uint256)');
+        expect(identified.collision).toBe(false);
+    });
+
+    it('should fall back to guessing when nothing matches', () => {
+        // the right selector, but the data doesn't fit
+        const db = parseSignatureDatabase('0xa9059cbb transfer(string)\nburn(uint256)');
+        const identified = identifyFragment(transfer, db);
+
+        expect(identified.source).toBe('guess');
+        expect(identified.fragment?.format()).toBe('guessed_a9059cbb(address,uint256)');
+        expect(identified.matches).toEqual([]);
+    });
+
+    it('should report collisions', () => {
+        const db = parseSignatureDatabase('collate_propagate_storage(bytes16)\nburn(uint256)');
+
+        // a small number isn't a canonical bytes16, so burn is the better pick
+        const burn = identifyFragment(abi.encodeFunctionData('burn', [1]), db);
+        expect(burn.collision).toBe(true);
+        expect(burn.fragment?.format()).toBe('burn(uint256)');
+        expect(burn.matches.map((v) => v.format())).toEqual(['burn(uint256)', 'collate_propagate_storage(bytes16)']);
+
+        // but both fit this one equally well
+        const collate = abi.encodeFunctionData('collate_propagate_storage', ['0x' + '11'.repeat(16)]);
+        expect(matchSignatures(collate, db).map((v) => v.format())).toEqual([
+            'collate_propagate_storage(bytes16)',
+            'burn(uint256)',
+        ]);
+    });
+});
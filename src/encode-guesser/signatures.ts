@@ -0,0 +1,153 @@
+import { FunctionFragment } from '@ethersproject/abi';
+import { arrayify, BytesLike, hexlify, id } from 'ethers/lib/utils';
+import { checkSignature } from './check';
+import { guessFragment, GuessOptions } from './guess';
+
+// every known signature, keyed by its selector, ex: 0xa9059cbb => ['transfer(address,uint256)']
+export type SignatureDatabase = Map<string, string[]>;
+
+const selectorOf = (signature: string) => id(signature).substring(0, 10);
+
+// dumps don't agree on whether selectors have a prefix
+const withPrefix = (selector: string) => (selector.startsWith('0x') ? selector : `0x${selector}`);
+
+const addSignature = (db: SignatureDatabase, signature: string, selector: string | null) => {
+    // the selector is hashed from the canonical signature, which never has spaces
+    const canonical = signature.replace(/\s+/g, '');
+    if (canonical.length === 0) return;
+
+    const key = (selector ?? selectorOf(canonical)).toLowerCase();
+    const signatures = db.get(key);
+    if (signatures === undefined) {
+        db.set(key, [canonical]);
+    } else if (!signatures.includes(canonical)) {
+        signatures.push(canonical);
+    }
+};
+
+// a list of signatures, or of objects with a text_signature like the ones the 4byte api returns
+const addJsonEntries = (db: SignatureDatabase, entries: ReadonlyArray<any>) => {
+    for (const entry of entries) {
+        if (typeof entry === 'string') {
+            addSignature(db, entry, null);
+        } else if (typeof entry?.text_signature === 'string') {
+            addSignature(db, entry.text_signature, entry.hex_signature ?? null);
+        }
+    }
+};
+
+const SELECTOR = /^(0x)?[0-9a-fA-F]{8}$/;
+
+// a line of a text dump, either just the signature or the selector followed by the signature
+const TEXT_LINE = /^(?:(0x[0-9a-fA-F]{8}|[0-9a-fA-F]{8})[\s,:;]+)?(.+)$/;
+
+/*
+build a signature database from the contents of a 4byte style dump. the dump can either be text with one
+signature per line, optionally preceded by its selector (ex: 0xa9059cbb,transfer(address,uint256)), or json
+holding a list of signatures, a list of objects with a text_signature, a page from the 4byte api with such a list
+in its results, or an object mapping selectors to one or more signatures. any other json object is an error.
+empty lines and lines starting with # are ignored. selectors that aren't given are computed
+ */
+export const parseSignatureDatabase = (contents: string): SignatureDatabase => {
+    const db: SignatureDatabase = new Map();
+    const trimmed = contents.trim();
+
+    if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+        const json = JSON.parse(trimmed);
+        if (Array.isArray(json)) {
+            addJsonEntries(db, json);
+        } else if (Array.isArray(json?.results)) {
+            // a page from the 4byte api, ex: {"count":1,"next":null,"previous":null,"results":[...]}
+            addJsonEntries(db, json.results);
+        } else {
+            const entries = Object.entries(json);
+            const key = entries.map(([v]) => v).find((v) => !SELECTOR.test(v));
+            if (key !== undefined) throw new Error(`expected an object mapping selectors to signatures, found ${key}`);
+
+            for (const [selector, signatures] of entries) {
+                for (const signature of Array.isArray(signatures) ? signatures : [signatures]) {
+                    if (typeof signature === 'string') addSignature(db, signature, withPrefix(selector));
+                }
+            }
+        }
+        return db;
+    }
+
+    for (const line of trimmed.split('\n')) {
+        const entry = line.trim();
+        if (entry.length === 0 || entry.startsWith('#')) continue;
+
+        const match = TEXT_LINE.exec(entry);
+        if (!match) continue;
+
+        const [, selector, signature] = match;
+        addSignature(db, signature, selector === undefined ? null : withPrefix(selector));
+    }
+    return db;
+};
+
+// build a signature database from a list of signatures
+export const createSignatureDatabase = (signatures: ReadonlyArray<string>): SignatureDatabase => {
+    const db: SignatureDatabase = new Map();
+    signatures.forEach((v) => addSignature(db, v, null));
+    return db;
+};
+
+/*
+find every known signature for the selector of the calldata that the calldata actually decodes with. signatures
+that the calldata was encoded with canonically come first, since anything decodes with enough sloppiness.
+signatures that ethers can't parse are skipped
+ */
+export const matchSignatures = (calldata: BytesLike, db: SignatureDatabase): FunctionFragment[] => {
+    const bytes = arrayify(calldata);
+    if (bytes.length < 4) return [];
+
+    const canonical: FunctionFragment[] = [];
+    const sloppy: FunctionFragment[] = [];
+    for (const signature of db.get(hexlify(bytes.slice(0, 4))) ?? []) {
+        let fragment: FunctionFragment;
+        try {
+            fragment = FunctionFragment.from(signature);
+        } catch {
+            continue;
+        }
+
+        const check = checkSignature(bytes, fragment.format());
+        if (!check.selectorMatches || !check.decodes) continue;
+
+        (check.canonical ? canonical : sloppy).push(fragment);
+    }
+    return [...canonical, ...sloppy];
+};
+
+export type IdentifiedFragment = {
+    // the best known signature that matches the calldata, or the structural guess if none do
+    fragment: FunctionFragment | null;
+
+    // where the fragment came from
+    source: 'database' | 'guess';
+
+    // every known signature that matches the calldata, best first
+    matches: FunctionFragment[];
+
+    // if more than one known signature matches, in which case the fragment is only our best pick
+    collision: boolean;
+};
+
+/*
+like guessFragment, but look the selector up in a signature database first so the function gets its real name
+and types. every known signature is tested against the calldata, and if none of them fit we fall back to the
+structural guess. nothing is fetched, the database is all we know
+ */
+export const identifyFragment = (
+    calldata: BytesLike,
+    db: SignatureDatabase,
+    options: GuessOptions = {},
+): IdentifiedFragment => {
+    const matches = matchSignatures(calldata, db);
+    if (matches.length > 0) {
+        return { fragment: matches[0], source: 'database', matches, collision: matches.length > 1 };
+    }
+
+    return { fragment: guessFragment(calldata, options), source: 'guess', matches, collision: false };
+};
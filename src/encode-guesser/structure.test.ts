@@ -0,0 +1,90 @@
+import { defaultAbiCoder, ParamType } from '@ethersproject/abi';
+import { BigNumber } from 'ethers';
+import { arrayify } from 'ethers/lib/utils';
+import { createWordView, fitsStaticValue, fitsTypes, readNumber } from './structure';
+
+const fits = (types: string[], data: string) => {
+    const bytes = arrayify(data);
+    return fitsTypes(
+        createWordView(bytes),
+        types.map((v) => ParamType.from(v)),
+        0,
+        bytes.length,
+    );
+};
+
+describe('structure', () => {
+    it('should read words as numbers', () => {
+        const data = arrayify(defaultAbiCoder.encode(['uint256', 'uint256'], [1234, BigNumber.from(2).pow(128)]));
+        const view = createWordView(data);
+
+        expect(readNumber(view, 0, data.length)).toBe(1234);
+        expect(readNumber(view, 32, data.length)).toBeNull();
+        expect(readNumber(view, 64, data.length)).toBeNull();
+
+        // words are cut short by the end of the region
+        expect(readNumber(view, 0, 31)).toBe(4);
+    });
+
+    it('should accept data that ethers can decode', () => {
+        const cases: Array<[string[], any[]]> = [
+            [
+                ['uint256', 'string'],
+                [1, 'hello'],
+            ],
+            [
+                ['bytes[]', 'uint256[2]'],
+                [
+                    ['0x1234', '0x'],
+                    [1, 2],
+                ],
+            ],
+            [['(uint256,string)[]'], [[[1, 'a']]]],
+        ];
+
+        for (const [types, vals] of cases) {
+            expect(fits(types, defaultAbiCoder.encode(types, vals))).toBe(true);
+        }
+
+        // an empty tuple takes up no space
+        expect(fits(['()', 'bytes32'], defaultAbiCoder.encode(['bytes32'], ['0x' + '11'.repeat(32)]))).toBe(true);
+    });
+
+    it('should reject data that ethers can not decode', () => {
+        const encoded = defaultAbiCoder.encode(['bytes'], ['0x1234']);
+
+        // not enough words
+        expect(fits(['uint256', 'uint256', 'uint256', 'uint256'], encoded)).toBe(false);
+        // the contents aren't padded
+        expect(fits(['bytes'], encoded.substring(0, encoded.length - 2))).toBe(false);
+        // the length is far too large for an array
+        expect(fits(['uint256[]'], defaultAbiCoder.encode(['uint256', 'uint256'], [32, 1000]))).toBe(false);
+        // not valid utf-8
+        expect(fits(['string'], defaultAbiCoder.encode(['bytes'], ['0xff']))).toBe(false);
+    });
+
+    it('should check static values for dirty bits', () => {
+        const view = createWordView(
+            arrayify(
+                defaultAbiCoder.encode(
+                    ['int256', 'uint256', 'bytes32'],
+                    [-2, 300, '0x' + 'ab'.repeat(4).padEnd(64, '0')],
+                ),
+            ),
+        );
+        const fitsAt = (type: string, pos: number) => fitsStaticValue(view, ParamType.from(type), pos);
+
+        expect(fitsAt('int8', 0)).toBe(true);
+        expect(fitsAt('uint8', 0)).toBe(false);
+        expect(fitsAt('uint16', 32)).toBe(true);
+        expect(fitsAt('uint8', 32)).toBe(false);
+        expect(fitsAt('int16', 32)).toBe(true);
+        expect(fitsAt('bool', 32)).toBe(false);
+        expect(fitsAt('address', 32)).toBe(true);
+        expect(fitsAt('bytes4', 64)).toBe(true);
+        expect(fitsAt('bytes3', 64)).toBe(false);
+
+        // past the end of the data
+        expect(fitsAt('uint256', 96)).toBe(false);
+    });
+});
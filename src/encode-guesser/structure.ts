@@ -0,0 +1,195 @@
+import { ParamType } from '@ethersproject/abi';
+import { toUtf8String } from 'ethers/lib/utils';
+
+// the data being searched. every region of the search shares the same view, so we never need to copy the data
+// and every word is only ever parsed once
+export type WordView = {
+    data: Uint8Array;
+
+    // the value of each aligned word as a number, or null if it's too large to be one. undefined until parsed
+    numbers: Array<number | null | undefined>;
+};
+
+export const createWordView = (data: Uint8Array): WordView => ({
+    data,
+    numbers: new Array(Math.ceil(data.length / 32)),
+});
+
+// parse big endian bytes into a number, or null if it can't safely be represented as one
+const parseNumber = (data: Uint8Array, from: number, to: number): number | null => {
+    let val = 0;
+    for (let i = from; i < to; i++) {
+        val = val * 256 + data[i];
+
+        // once we're too large we can only get larger
+        if (val >= Number.MAX_SAFE_INTEGER) return null;
+    }
+    return val;
+};
+
+// read the word at pos as a number. the word is cut short by the end of the region, just like slicing the
+// region would. returns null if there's nothing to read, or if the word is too large to be a number
+export const readNumber = (view: WordView, pos: number, end: number): number | null => {
+    if (pos >= end) return null;
+
+    if (pos + 32 > end || pos % 32 !== 0) {
+        // partial words only happen at the very end of the data, so there's no point remembering them
+        return parseNumber(view.data, pos, Math.min(pos + 32, end));
+    }
+
+    const idx = pos / 32;
+    let val = view.numbers[idx];
+    if (val === undefined) {
+        val = parseNumber(view.data, pos, pos + 32);
+        view.numbers[idx] = val;
+    }
+    return val;
+};
+
+// try and parse an offset from the region [start, end) of the data
+// returns the word as a number if it's a potentially valid offset into the region
+export const tryParseOffset = (view: WordView, start: number, end: number, pos: number): number | null => {
+    // can't be huge
+    const offset = readNumber(view, start + pos, end);
+    if (offset === null) return null;
+
+    // must be located in the correct region of calldata
+    if (offset <= pos || offset >= end - start) return null;
+
+    // must be a multiple of 32
+    if (offset % 32 !== 0) return null;
+
+    return offset;
+};
+
+// try and parse a length from the region [start, end) of the data
+// returns the word as a number if it's a potentially valid length for the region
+export const tryParseLength = (view: WordView, start: number, end: number, offset: number): number | null => {
+    // can't be huge
+    const length = readNumber(view, start + offset, end);
+    if (length === null) return null;
+
+    // must be valid
+    if (offset + 32 + length > end - start) return null;
+
+    return length;
+};
+
+// returns true if the param can't be encoded in the static section of calldata
+export const isDynamic = (param: ParamType): boolean => {
+    if (param.baseType === 'bytes' || param.baseType === 'string') {
+        return true;
+    } else if (param.baseType === 'array') {
+        return param.arrayLength === -1 || isDynamic(param.arrayChildren);
+    } else if (param.baseType === 'tuple') {
+        return param.components.find(isDynamic) !== undefined;
+    }
+    return false;
+};
+
+// check that count values of the given types can be decoded from the tuple at base, returning where the head ends
+const fitsTuple = (
+    view: WordView,
+    typeAt: (idx: number) => ParamType,
+    count: number,
+    base: number,
+    end: number,
+): number | null => {
+    let pos = base;
+    for (let i = 0; i < count; i++) {
+        const param = typeAt(i);
+        if (isDynamic(param)) {
+            // offsets are relative to the start of the tuple
+            const offset = readNumber(view, pos, end);
+            if (offset === null || pos + 32 > end) return null;
+            if (fitsParam(view, param, base + offset, end) === null) return null;
+            pos += 32;
+        } else {
+            const next = fitsParam(view, param, pos, end);
+            if (next === null) return null;
+            pos = next;
+        }
+    }
+    return pos;
+};
+
+// check that a value of the given type can be decoded at pos, returning where it ends
+const fitsParam = (view: WordView, param: ParamType, pos: number, end: number): number | null => {
+    if (param.baseType === 'tuple') {
+        return fitsTuple(view, (i) => param.components[i], param.components.length, pos, end);
+    } else if (param.baseType === 'array') {
+        let count = param.arrayLength;
+        let base = pos;
+        if (count === -1) {
+            const length = readNumber(view, pos, end);
+            if (length === null || pos + 32 > end) return null;
+
+            // the same sanity check as ethers, every element takes up at least a word
+            if (length * 32 > end - pos) return null;
+
+            count = length;
+            base += 32;
+        }
+        return fitsTuple(view, () => param.arrayChildren, count, base, end);
+    } else if (param.baseType === 'bytes' || param.baseType === 'string') {
+        const length = readNumber(view, pos, end);
+        if (length === null || pos + 32 > end) return null;
+
+        // the contents must be padded to a whole number of words
+        const next = pos + 32 + Math.ceil(length / 32) * 32;
+        if (next > end) return null;
+
+        if (param.baseType === 'string') {
+            try {
+                toUtf8String(view.data.subarray(pos + 32, pos + 32 + length));
+            } catch {
+                return null;
+            }
+        }
+        return next;
+    } else if (param.baseType === '') {
+        // ethers parses () as a tuple with a single empty component, which takes up no space at all
+        return pos;
+    }
+
+    // every other type is a single word
+    return pos + 32 > end ? null : pos + 32;
+};
+
+/*
+check that the region [start, end) of the view can be decoded as the given types. this follows the same rules
+as the ethers decoder, but only looks at the structure of the data instead of building every value, so it's
+much cheaper. note that it doesn't validate values, ex: an address with dirty upper bits
+ */
+export const fitsTypes = (view: WordView, params: ReadonlyArray<ParamType>, start: number, end: number): boolean => {
+    return fitsTuple(view, (i) => params[i], params.length, start, end) !== null;
+};
+
+// check that the word at pos holds a valid value for the given single word type, ex: an address has no dirty bits
+export const fitsStaticValue = (view: WordView, param: ParamType, pos: number): boolean => {
+    if (pos + 32 > view.data.length) return false;
+    const word = view.data.subarray(pos, pos + 32);
+
+    // the number of bytes the value takes up, and whether the rest must be zeros or the sign
+    let size = 32;
+    let signed = false;
+    let leftAligned = false;
+    if (param.baseType === 'address') {
+        size = 20;
+    } else if (param.baseType === 'bool') {
+        return word.subarray(0, 31).every((v) => v === 0) && word[31] <= 1;
+    } else if (/^u?int[0-9]*$/.test(param.baseType)) {
+        size = parseInt(param.baseType.substring(param.baseType.indexOf('int') + 3) || '256') / 8;
+        signed = !param.baseType.startsWith('u');
+    } else if (/^bytes[0-9]+$/.test(param.baseType)) {
+        size = parseInt(param.baseType.substring(5));
+        leftAligned = true;
+    }
+
+    if (leftAligned) {
+        return word.subarray(size).every((v) => v === 0);
+    }
+
+    const padding = signed && word[32 - size] >= 0x80 ? 0xff : 0;
+    return word.subarray(0, 32 - size).every((v) => v === padding);
+};
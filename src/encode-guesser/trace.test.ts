@@ -0,0 +1,74 @@
+import { defaultAbiCoder, Interface } from '@ethersproject/abi';
+import { guessAbiEncodedData } from './guess';
+import { guessCallTree } from './nested';
+import { createSearchTreeCollector, SearchTreeNode, TraceEvent } from './trace';
+
+// every node in the tree, depth first
+const flatten = (node: SearchTreeNode): SearchTreeNode[] => [node, ...node.children.flatMap(flatten)];
+
+describe('trace', () => {
+    const encoded = defaultAbiCoder.encode(['uint256', 'string'], [42, 'hello']);
+
+    it('should bracket every step with enter and exit', () => {
+        const events: TraceEvent[] = [];
+        guessAbiEncodedData(encoded, { tracer: (event) => events.push(event) });
+
+        let open = 0;
+        for (const event of events) {
+            if (event.kind === 'enter') open++;
+            if (event.kind === 'exit') open--;
+            expect(open).toBeGreaterThanOrEqual(0);
+        }
+        expect(open).toBe(0);
+        expect(events[0]).toMatchObject({ kind: 'enter', depth: 0, start: 0, end: 128, param: 0 });
+    });
+
+    it('should collect the search tree', () => {
+        const collector = createSearchTreeCollector();
+        const params = guessAbiEncodedData(encoded, { tracer: collector.tracer });
+        expect(params?.map((v) => v.format())).toEqual(['uint256', 'string']);
+
+        const tree = collector.tree()!;
+        expect(tree.results).toEqual(['bytes32,bytes']);
+        expect(JSON.parse(JSON.stringify(tree))).toEqual(tree);
+
+        const nodes = flatten(tree);
+
+        // the first word can't be an offset, so it's only considered as a static value
+        expect(tree.events).toEqual([{ kind: 'consider', param: 0, as: 'static' }]);
+
+        // the second word is an offset to a length
+        const second = nodes.find((v) => v.depth === 0 && v.param === 1)!;
+        expect(second.collected).toEqual(['bytes32']);
+        expect(second.events).toContainEqual({ kind: 'offset', param: 1, offset: 64, length: 5 });
+
+        // and it was resolved to bytes once we reached the end of the static section
+        const resolved = nodes.flatMap((v) => v.events).filter((v) => v.kind === 'resolve');
+        expect(resolved).toContainEqual({ kind: 'resolve', param: 1, types: ['bytes'] });
+    });
+
+    it('should record rejected branches', () => {
+        const collector = createSearchTreeCollector();
+        guessAbiEncodedData(encoded, { tracer: collector.tracer, maxSteps: 1 });
+
+        const events = flatten(collector.tree()!).flatMap((v) => v.events);
+        expect(events).toContainEqual({ kind: 'reject', reason: 'out of budget' });
+    });
+
+    it('should keep the tree of every search', () => {
+        const iface = new Interface(['function multicall(bytes[])', 'function transfer(address,uint256)']);
+        const transfer = iface.encodeFunctionData('transfer', ['0x111A66beC9536aF6DA69Dd198F5252857dFB2FB1', 1]);
+
+        const collector = createSearchTreeCollector();
+        const tree = guessCallTree(iface.encodeFunctionData('multicall', [[transfer, transfer]]), 4, {
+            tracer: collector.tracer,
+        });
+        expect(tree?.children.length).toBe(2);
+
+        // the multicall itself, then each of the nested transfers
+        const trees = collector.trees();
+        expect(trees.length).toBe(3);
+        expect(trees[0]).toBe(collector.tree());
+        expect(trees[1].results).toEqual(trees[2].results);
+    });
+});
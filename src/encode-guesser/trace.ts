@@ -0,0 +1,92 @@
+// everything the search can tell a tracer about. events are emitted in the order they happen, and every step
+// of the search is bracketed by an enter and an exit event
+export type TraceEvent =
+    // started a step of the search, which decodes the tuple in [start, end) of the data from the given param onwards
+    | {
+          kind: 'enter';
+          depth: number;
+          start: number;
+          end: number;
+          param: number;
+          collected: string[];
+          expectedLength: number | null;
+          isDynamicArrayElement: boolean | null;
+      }
+    // finished a step, with every interpretation it found
+    | { kind: 'exit'; results: string[] }
+    // the tuple in [start, end) was already decoded by an earlier step, so its results were reused
+    | { kind: 'cached'; start: number; end: number; results: string[] }
+    // the word for a param could be an offset, and there could be a length at that offset
+    | { kind: 'offset'; param: number; offset: number; length: number | null }
+    // about to try a param as a dynamic value with a length (bytes or an array), a tuple, or a static value
+    | { kind: 'consider'; param: number; as: 'dynamic' | 'tuple' | 'static' }
+    // a dynamic param could be any of these types, best first
+    | { kind: 'resolve'; param: number; types: string[] }
+    // an interpretation of the whole tuple fits the data
+    | { kind: 'accept'; params: string }
+    // something didn't work out
+    | { kind: 'reject'; reason: string };
+
+export type Tracer = (event: TraceEvent) => void;
+
+export type SearchTreeNode = {
+    depth: number;
+    start: number;
+    end: number;
+    param: number;
+    // the params before this one, as decided by the steps above. dynamic values are placeholders until resolved
+    collected: string[];
+    expectedLength: number | null;
+    isDynamicArrayElement: boolean | null;
+
+    // everything that happened during this step, except for entering and exiting the steps below it
+    events: TraceEvent[];
+
+    // the steps that this step started
+    children: SearchTreeNode[];
+
+    // every interpretation this step found
+    results: string[];
+};
+
+export type SearchTreeCollector = {
+    // pass this in the options of a guess
+    tracer: Tracer;
+
+    // the search tree of the first search, or null if nothing was traced yet
+    tree: () => SearchTreeNode | null;
+
+    // the search trees of every search, in the order they ran. some guesses run more than one search, ex:
+    // guessCallTree guesses every nested call, and trailing data is tried with several lengths
+    trees: () => SearchTreeNode[];
+};
+
+/*
+build the whole search tree of a guess out of the trace. the tree only contains plain objects, so it can be
+passed to JSON.stringify as is. use a new collector for every guess, every search the guess runs gets its own tree
+ */
+export const createSearchTreeCollector = (): SearchTreeCollector => {
+    const roots: SearchTreeNode[] = [];
+    const stack: SearchTreeNode[] = [];
+
+    const tracer: Tracer = (event) => {
+        if (event.kind === 'enter') {
+            const { kind, ...step } = event;
+            const node: SearchTreeNode = { ...step, events: [], children: [], results: [] };
+
+            if (stack.length > 0) {
+                stack[stack.length - 1].children.push(node);
+            } else {
+                roots.push(node);
+            }
+            stack.push(node);
+        } else if (event.kind === 'exit') {
+            const node = stack.pop();
+            if (node) node.results = event.results;
+        } else if (stack.length > 0) {
+            stack[stack.length - 1].events.push(event);
+        }
+    };
+
+    return { tracer, tree: () => roots[0] ?? null, trees: () => roots };
+};
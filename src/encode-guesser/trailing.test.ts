@@ -0,0 +1,23 @@
+import { hexlify, toUtf8Bytes } from 'ethers/lib/utils';
+import { classifyTrailingData } from './trailing';
+
+describe('trailing', () => {
+    it('should classify appended addresses', () => {
+        const trailing = classifyTrailingData('0x111A66beC9536aF6DA69Dd198F5252857dFB2FB1', 64);
+
+        expect(trailing).toMatchObject({ offset: 64, data: '0x111a66bec9536af6da69dd198f5252857dfb2fb1' });
+        expect(trailing.kind).toBe('address');
+    });
+
+    it('should classify short ids and text as tags', () => {
+        expect(classifyTrailingData('0x72db8c0b', 0).kind).toBe('tag');
+        expect(classifyTrailingData(hexlify(toUtf8Bytes('referral:some-wallet-app')), 0).kind).toBe('tag');
+    });
+
+    it('should not classify anything else', () => {
+        expect(classifyTrailingData('0x' + 'ab'.repeat(40), 0)).toMatchObject({ kind: 'unknown', reason: null });
+
+        // too many leading zeros for an address
+        expect(classifyTrailingData('0x' + '00'.repeat(19) + '01', 0).kind).toBe('unknown');
+    });
+});
@@ -0,0 +1,42 @@
+import { arrayify, BytesLike, hexlify, zeroPad } from 'ethers/lib/utils';
+import { guessStaticType, isPrintableText } from './types';
+
+// what we think the bytes after the encoded params are
+// - address: a single address, like the sender that ERC-2771 forwarders append to meta-transactions
+// - tag: a short id or some text, like the referral and tracking tags that aggregators and marketplaces append
+// - unknown: anything else
+export type TrailingDataKind = 'address' | 'tag' | 'unknown';
+
+export type TrailingData = {
+    // where the trailing data starts, in bytes from the start of the encoded params (after the selector, if any)
+    offset: number;
+
+    // the trailing data itself
+    data: string;
+
+    kind: TrailingDataKind;
+
+    // a human readable explanation of the kind, or null if we know nothing about it
+    reason: string | null;
+};
+
+// ids longer than this are more likely to be something we don't know about
+const MAX_TAG_LENGTH = 16;
+
+/*
+work out what the bytes after the encoded params could be. there's no telling for sure, since the contract can
+do anything it wants with them, so this only looks at the shape of the bytes
+ */
+export const classifyTrailingData = (bytes: BytesLike, offset: number): TrailingData => {
+    const data = arrayify(bytes);
+    const result = { offset, data: hexlify(data) };
+
+    if (data.length === 20 && guessStaticType(zeroPad(data, 32)).baseType === 'address') {
+        return { ...result, kind: 'address', reason: 'the trailing 20 bytes look like an appended address' };
+    } else if (data.length > 0 && isPrintableText(data)) {
+        return { ...result, kind: 'tag', reason: `the trailing ${data.length} bytes look like text` };
+    } else if (data.length > 0 && data.length <= MAX_TAG_LENGTH) {
+        return { ...result, kind: 'tag', reason: `the trailing ${data.length} bytes are short enough to be a tag` };
+    }
+    return { ...result, kind: 'unknown', reason: null };
+};
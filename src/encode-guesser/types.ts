@@ -0,0 +1,224 @@
+import { ParamType } from '@ethersproject/abi';
+import { arrayify, hexlify, hexZeroPad, toUtf8String } from 'ethers/lib/utils';
+
+// count the number of leading zeros
+export const countLeadingZeros = (arr: Uint8Array) => {
+    let count = 0;
+    for (let i = 0; i < arr.length; i++) {
+        if (arr[i] != 0) break;
+
+        count++;
+    }
+    return count;
+};
+
+// count the number of trailing zeros
+export const countTrailingZeros = (arr: Uint8Array) => {
+    let count = 0;
+    for (let i = arr.length - 1; i >= 0; i--) {
+        if (arr[i] != 0) break;
+
+        count++;
+    }
+    return count;
+};
+
+// count the number of leading 0xff bytes, which is how small negative numbers start
+export const countLeadingOnes = (arr: Uint8Array) => {
+    let count = 0;
+    for (let i = 0; i < arr.length; i++) {
+        if (arr[i] != 0xff) break;
+
+        count++;
+    }
+    return count;
+};
+
+/*
+how far to go when narrowing static types
+- conservative: only narrow when the data leaves little doubt, ex: negative numbers and arrays of flags
+- aggressive: narrow every value to the smallest type that fits, ex: 1 becomes bool and 300 becomes uint16
+ */
+export type TypeInference = 'conservative' | 'aggressive';
+
+// the widths we narrow integers to, we don't bother with the unusual ones
+const INTEGER_WIDTHS = [8, 16, 32, 64, 128, 256];
+
+const narrowestWidth = (bytes: number): number => INTEGER_WIDTHS.find((v) => v >= bytes * 8)!;
+
+const integerWidth = (type: string): number | null => {
+    const match = /^u?int([0-9]+)$/.exec(type);
+    return match ? parseInt(match[1]) : null;
+};
+
+const isUint = (type: string) => type.startsWith('uint') && integerWidth(type) !== null;
+const isInt = (type: string) => type.startsWith('int') && integerWidth(type) !== null;
+
+// the marker we use for an empty dynamic value, whose real type we can't know
+export const EMPTY_DYNAMIC = '()[]';
+
+const isEmptyDynamic = (param: ParamType): boolean => param.format() === EMPTY_DYNAMIC;
+
+// dynamic values which are prefixed by their length in bytes
+const isByteString = (param: ParamType): boolean => param.baseType === 'bytes' || param.baseType === 'string';
+
+// check if two guesses for the same value have the same shape, such that they can be merged
+export const areTypesMergeable = (a: ParamType, b: ParamType): boolean => {
+    if (isEmptyDynamic(a) || isEmptyDynamic(b)) {
+        // an empty value could have been any array or bytestring
+        const other = isEmptyDynamic(a) ? b : a;
+        return isEmptyDynamic(other) || isByteString(other) || (other.baseType === 'array' && other.arrayLength === -1);
+    }
+
+    if (a.baseType === 'tuple' || b.baseType === 'tuple') {
+        return (
+            a.baseType === b.baseType &&
+            a.components.length === b.components.length &&
+            a.components.every((v, i) => areTypesMergeable(v, b.components[i]))
+        );
+    }
+
+    if (a.baseType === 'array' || b.baseType === 'array') {
+        return (
+            a.baseType === b.baseType &&
+            a.arrayLength === b.arrayLength &&
+            areTypesMergeable(a.arrayChildren, b.arrayChildren)
+        );
+    }
+
+    return isByteString(a) === isByteString(b);
+};
+
+// merge several guesses for the same value into a single type. the guesses must be mergeable
+export const mergeTypes = (types: Array<ParamType>): ParamType => {
+    if (types.length === 0) {
+        return ParamType.from('()');
+    }
+
+    // empty values don't tell us anything, so let the populated ones decide
+    const populatedTypes = types.filter((v) => !isEmptyDynamic(v));
+    if (populatedTypes.length === 0) {
+        return ParamType.from(EMPTY_DYNAMIC);
+    }
+    types = populatedTypes;
+
+    if (types.find((v) => v.baseType === 'tuple') !== undefined) {
+        const componentTypes = [];
+        for (let i = 0; i < types[0].components.length; i++) {
+            componentTypes.push(mergeTypes(Array.from(Array(types.length).keys()).map((v) => types[v].components[i])));
+        }
+        return ParamType.from(`(${componentTypes.map((v) => v.format()).join(',')})`);
+    }
+    if (types.find((v) => v.baseType === 'array') !== undefined) {
+        return ParamType.from(`${mergeTypes(types.map((v) => v.arrayChildren)).format()}[]`);
+    }
+
+    const set = new Set(types.map((v) => v.format()));
+    if (set.size === 1) {
+        return types[0];
+    } else {
+        if (set.has('bytes')) {
+            return ParamType.from('bytes');
+        } else if (set.has('address') && Array.from(set).every((v) => v === 'address' || v === 'bool' || isUint(v))) {
+            // small values (most commonly the zero address) look like uint256, but a value that
+            // looks like an address is very unlikely to be a uint256
+            return ParamType.from('address');
+        } else if (Array.from(set).every((v) => v === 'bool' || isUint(v))) {
+            // a flag is just a very small uint, so the widest uint covers everything
+            return ParamType.from(`uint${Math.max(...Array.from(set).map((v) => integerWidth(v) ?? 8))}`);
+        } else if (Array.from(set).every((v) => v === 'bool' || isUint(v) || isInt(v))) {
+            // positive values look like uints, but an int needs an extra bit for the sign
+            const widths = Array.from(set).map((v) => (isInt(v) ? integerWidth(v)! : (integerWidth(v) ?? 8) + 8));
+            return ParamType.from(`int${narrowestWidth(Math.min(Math.max(...widths), 256) / 8)}`);
+        } else if (Array.from(set).find(isUint) !== undefined) {
+            return ParamType.from('uint256');
+        } else if (Array.from(set).every((v) => /^bytes[0-9]+$/.test(v))) {
+            // fixed bytes are left aligned, so the widest guess covers every other one
+            return ParamType.from(`bytes${Math.max(...types.map((v) => parseInt(v.type.substring(5))))}`);
+        } else {
+            return ParamType.from('bytes32');
+        }
+    }
+};
+
+// words with at least this many leading 0xff bytes are within 2^32 of type(uint256).max
+const NEAR_MAX_LEADING_ONES = 28;
+
+// guess the type of a single static word based on where its zeros are
+export const guessStaticType = (word: Uint8Array, inference: TypeInference = 'conservative'): ParamType => {
+    const leadingZeros = countLeadingZeros(word);
+    const leadingOnes = countLeadingOnes(word);
+    const trailingZeros = countTrailingZeros(word);
+
+    if (inference === 'aggressive' && leadingZeros >= 31 && word[31] <= 1) {
+        return ParamType.from('bool');
+    } else if (leadingZeros >= 12 && leadingZeros <= 17) {
+        // it's probably very hard to mine more leading zeros than that
+        return ParamType.from('address');
+    } else if (leadingZeros > 16) {
+        return ParamType.from(inference === 'aggressive' ? `uint${narrowestWidth(32 - leadingZeros)}` : 'uint256');
+    } else if (inference === 'conservative' && leadingOnes >= NEAR_MAX_LEADING_ONES) {
+        // type(uint256).max and the values just below it, like unlimited approvals, are far more common than small
+        // negative numbers, which are encoded exactly the same way
+        return ParamType.from('uint256');
+    } else if (leadingOnes >= 12) {
+        // a hash is just as unlikely to start with this many 0xff bytes, so this must be a negative number
+        // the first byte that isn't 0xff still needs its top bit set, otherwise it takes another byte to sign extend
+        const significantBytes = 32 - leadingOnes + (leadingOnes === 32 || word[leadingOnes] < 0x80 ? 1 : 0);
+        return ParamType.from(inference === 'aggressive' ? `int${narrowestWidth(significantBytes)}` : 'int256');
+    } else if (trailingZeros > 0) {
+        return ParamType.from(`bytes${32 - trailingZeros}`);
+    } else {
+        return ParamType.from('bytes32');
+    }
+};
+
+// text made of printable characters only, as opposed to random bytes which happen to be valid utf-8
+export const isPrintableText = (bytes: Uint8Array): boolean => {
+    try {
+        return /^[\x20-\x7e\t\r\n\u00a0-\uffff]+$/.test(toUtf8String(bytes));
+    } catch {
+        return false;
+    }
+};
+
+// an array with both zeros and ones and nothing else is very likely an array of flags
+const isBoolArray = (vals: Array<any>): boolean => {
+    const words = vals.map((v) => hexlify(v));
+    const zero = hexZeroPad('0x00', 32);
+    const one = hexZeroPad('0x01', 32);
+    return words.includes(zero) && words.includes(one) && words.every((v) => v === zero || v === one);
+};
+
+export const prettyTypes = (
+    params: Array<ParamType>,
+    vals: Array<any>,
+    inference: TypeInference = 'conservative',
+): Array<ParamType> => {
+    return params.map((param, idx) => {
+        const val = vals[idx];
+
+        if (param.type === 'bytes32') {
+            return guessStaticType(arrayify(val), inference);
+        } else if (param.type === 'bytes') {
+            // plenty of binary data is valid utf-8, especially when it's short, so only text that's printable
+            const bytes = arrayify(val);
+            return ParamType.from(bytes.length === 0 || isPrintableText(bytes) ? 'string' : 'bytes');
+        } else if (param.baseType === 'array') {
+            if (param.arrayChildren.type === 'bytes32' && isBoolArray(val)) {
+                return ParamType.from('bool[]');
+            }
+
+            const childrenTypes = val.map((child: any) => prettyTypes([param.arrayChildren], [child], inference)[0]);
+            return ParamType.from(`${mergeTypes(childrenTypes).format()}[]`);
+        } else if (param.baseType === 'tuple') {
+            return ParamType.from(
+                `(${prettyTypes(param.components, val, inference)
+                    .map((v) => v.format())
+                    .join(',')})`,
+            );
+        } else {
+            return param;
+        }
+    });
+};
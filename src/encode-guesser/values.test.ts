@@ -0,0 +1,88 @@
+import { ParamType } from '@ethersproject/abi';
+import { ethers } from 'ethers';
+import { guessAbiEncodedDataWithValues, guessFragmentWithValues, serializeValues, walkValues } from './values';
+
+describe('values', () => {
+    it('should serialize every kind of value', () => {
+        const types = [
+            'address',
+            'uint256',
+            'int8',
+            'bool',
+            'bytes4',
+            'bytes',
+            'string',
+            'uint256[]',
+            '(uint256,string)',
+            'tuple(uint256 amount, address owner)',
+        ].map((v) => ParamType.from(v));
+        const args = [
+            '0x111a66bec9536af6da69dd198f5252857dfb2fb1',
+            ethers.constants.MaxUint256,
+            -5,
+            true,
+            '0xcafebabe',
+            '0xdeadbeef',
+            'hello',
+            [1, 2],
+            [3, 'world'],
+            [4, '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'],
+        ];
+        const vals = ethers.utils.defaultAbiCoder.decode(types, ethers.utils.defaultAbiCoder.encode(types, args));
+
+        expect(serializeValues(types, vals)).toEqual([
+            '0x111A66beC9536aF6DA69Dd198F5252857dFB2FB1',
+            '115792089237316195423570985008687907853269984665640564039457584007913129639935',
+            '-5',
+            true,
+            '0xcafebabe',
+            '0xdeadbeef',
+            'hello',
+            ['1', '2'],
+            ['3', 'world'],
+            { amount: '4', owner: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' },
+        ]);
+    });
+
+    it('should survive a round trip through JSON', () => {
+        const data = ethers.utils.defaultAbiCoder.encode(['(uint256,string)[]'], [[[1, 'alice']]]);
+        const guessed = guessAbiEncodedDataWithValues(data);
+
+        expect(guessed?.params.map((v) => v.format())).toEqual(['(uint256,string)[]']);
+        expect(JSON.parse(JSON.stringify(guessed?.values))).toEqual([[['1', 'alice']]]);
+    });
+
+    it('should decode calldata alongside the guessed fragment', () => {
+        const abi = new ethers.utils.Interface(['function transfer(address to, uint256 amount)']);
+        const guessed = guessFragmentWithValues(
+            abi.encodeFunctionData('transfer', ['0x111a66bec9536af6da69dd198f5252857dfb2fb1', 1234]),
+        );
+
+        expect(guessed?.fragment.format()).toBe('guessed_a9059cbb(address,uint256)');
+        expect(guessed?.values).toEqual(['0x111A66beC9536aF6DA69Dd198F5252857dFB2FB1', '1234']);
+    });
+
+    it('should walk every value that is not an array or a tuple', () => {
+        const types = ['uint256', '(bool,string)[]', 'bytes4[2]'].map((v) => ParamType.from(v));
+        const leaves = Array.from(
+            walkValues(types, [
+                1,
+                [
+                    [true, 'a'],
+                    [false, 'b'],
+                ],
+                ['0x12345678', '0x9abcdef0'],
+            ]),
+        );
+
+        expect(leaves.map(([param, value, path]) => [param.type, value, path])).toEqual([
+            ['uint256', 1, 'arg0'],
+            ['bool', true, 'arg1[0].0'],
+            ['string', 'a', 'arg1[0].1'],
+            ['bool', false, 'arg1[1].0'],
+            ['string', 'b', 'arg1[1].1'],
+            ['bytes4', '0x12345678', 'arg2[0]'],
+            ['bytes4', '0x9abcdef0', 'arg2[1]'],
+        ]);
+    });
+});
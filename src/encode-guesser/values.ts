@@ -0,0 +1,127 @@
+import { defaultAbiCoder, FunctionFragment, ParamType } from '@ethersproject/abi';
+import { arrayify, BytesLike, getAddress, hexlify } from 'ethers/lib/utils';
+import { guessAbiEncodedData, guessFragment, GuessOptions } from './guess';
+
+// a decoded value in a form that survives JSON.stringify without losing information
+export type JsonValue = string | boolean | JsonValue[] | { [name: string]: JsonValue };
+
+export type GuessWithValues = {
+    // the guessed types
+    params: ParamType[];
+
+    // the values decoded with the guessed types, one per param
+    values: JsonValue[];
+};
+
+export type FragmentWithValues = {
+    // the guessed function
+    fragment: FunctionFragment;
+
+    // the arguments decoded with the guessed function, one per input
+    values: JsonValue[];
+};
+
+/*
+serialize a decoded value of the given type. numbers become decimal strings, bytes become hex strings, and
+addresses are checksummed. tuples become objects if every component is named, and arrays otherwise
+ */
+export const serializeValue = (param: ParamType, val: any): JsonValue => {
+    switch (param.baseType) {
+        case 'address':
+            return getAddress(val);
+        case 'bool':
+            return val;
+        case 'string':
+            return val;
+        case 'bytes':
+            return hexlify(val);
+        case 'array':
+            return val.map((child: any) => serializeValue(param.arrayChildren, child));
+        case 'tuple': {
+            const components = param.components.map((component, idx) => serializeValue(component, val[idx]));
+            if (param.components.length === 0 || param.components.find((v) => !v.name) !== undefined) {
+                return components;
+            }
+
+            const result: { [name: string]: JsonValue } = {};
+            param.components.forEach((component, idx) => {
+                result[component.name] = components[idx];
+            });
+            return result;
+        }
+    }
+
+    if (param.baseType.startsWith('uint') || param.baseType.startsWith('int')) {
+        return val.toString();
+    } else if (param.baseType.startsWith('bytes')) {
+        return hexlify(val);
+    }
+
+    throw new Error(`unsupported type ${param.format()}`);
+};
+
+export const serializeValues = (params: ReadonlyArray<ParamType>, vals: ReadonlyArray<any>): JsonValue[] => {
+    return params.map((param, idx) => serializeValue(param, vals[idx]));
+};
+
+// a value that isn't an array or a tuple, along with its type and where it was found
+export type LeafValue = [param: ParamType, value: any, path: string];
+
+const walk = function* (
+    params: ReadonlyArray<ParamType>,
+    vals: ReadonlyArray<any>,
+    paths: ReadonlyArray<string>,
+): Generator<LeafValue> {
+    for (const [idx, param] of params.entries()) {
+        const val = vals[idx];
+        const path = paths[idx];
+
+        if (param.baseType === 'array') {
+            const elements: ReadonlyArray<any> = val;
+            yield* walk(
+                elements.map(() => param.arrayChildren),
+                elements,
+                elements.map((_, i) => `${path}[${i}]`),
+            );
+        } else if (param.baseType === 'tuple') {
+            yield* walk(
+                param.components,
+                val,
+                param.components.map((_, i) => `${path}.${i}`),
+            );
+        } else {
+            yield [param, val, path];
+        }
+    }
+};
+
+/*
+walk the params and the values decoded with them depth first, yielding every value that isn't an array or a tuple.
+the top level params are named arg0, arg1, ... in the paths, the elements of arrays [i] and the components of
+tuples .i, ex: arg1[2].0
+ */
+export const walkValues = (params: ReadonlyArray<ParamType>, vals: ReadonlyArray<any>): Generator<LeafValue> =>
+    walk(
+        params,
+        vals,
+        params.map((_, i) => `arg${i}`),
+    );
+
+export const guessAbiEncodedDataWithValues = (bytes: BytesLike, options: GuessOptions = {}): GuessWithValues | null => {
+    const params = guessAbiEncodedData(bytes, options);
+    if (!params) {
+        return null;
+    }
+
+    return { params, values: serializeValues(params, defaultAbiCoder.decode(params, bytes)) };
+};
+
+export const guessFragmentWithValues = (calldata: BytesLike, options: GuessOptions = {}): FragmentWithValues | null => {
+    const fragment = guessFragment(calldata, options);
+    if (!fragment) {
+        return null;
+    }
+
+    const vals = defaultAbiCoder.decode(fragment.inputs, arrayify(calldata).slice(4));
+    return { fragment, values: serializeValues(fragment.inputs, vals) };
+};